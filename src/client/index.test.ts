@@ -1,5 +1,12 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
-import { TableAggregate } from "./index.js";
+import {
+  DirectSearchTree,
+  iterJoin,
+  type NamespaceBounds,
+  paginateJoin,
+  type RunQueryCtx,
+  TableSearchTree,
+} from "./index.js";
 import {
   components,
   componentSchema,
@@ -10,9 +17,11 @@ import {
   defineSchema,
   defineTable,
   type GenericMutationCtx,
+  makeFunctionReference,
 } from "convex/server";
-import { v } from "convex/values";
+import { v, type Value } from "convex/values";
 import { convexTest } from "convex-test";
+import { api } from "../component/_generated/api.js";
 import type { DataModelFromSchemaDefinition } from "convex/server";
 
 const schema = defineSchema({
@@ -24,7 +33,7 @@ const schema = defineSchema({
     album: v.string(),
     url: v.string(),
     score: v.number(),
-  }),
+  }).index("by_album_score", ["album", "score"]),
 });
 
 function setupTest() {
@@ -39,15 +48,16 @@ type DataModel = DataModelFromSchemaDefinition<typeof schema>;
 // Helper function to create aggregates with fresh instances
 // if we dont do this we will get strange errors if we share instances between tests
 function createAggregates() {
-  const aggregate = new TableAggregate<{
+  const aggregate = new TableSearchTree<{
     Key: number;
     DataModel: DataModel;
     TableName: "testItems";
   }>(components.aggregate, {
     sortKey: (doc) => doc.value,
+    sumValue: (doc) => doc.value,
   });
 
-  const aggregateWithNamespace = new TableAggregate<{
+  const aggregateWithNamespace = new TableSearchTree<{
     Namespace: string;
     Key: number;
     DataModel: DataModel;
@@ -71,7 +81,7 @@ async function testItem(
   return (await ctx.db.get(id))!;
 }
 
-describe("TableAggregate", () => {
+describe("TableSearchTree", () => {
   describe("count", () => {
     let t: ConvexTest;
     let aggregate: ReturnType<typeof createAggregates>["aggregate"];
@@ -107,6 +117,42 @@ describe("TableAggregate", () => {
       expect(result).toBe(2);
     });
 
+    test("should keep counts through node splits and merges", async () => {
+      await t.run(async (ctx) => {
+        await aggregate.clear(ctx, { maxNodeSize: 4 });
+        const docs = [];
+        for (let i = 0; i < 40; i++) {
+          const doc = await testItem(ctx, { name: "name", value: i });
+          await aggregate.insert(ctx, doc);
+          docs.push(doc);
+        }
+        await ctx.runQuery(components.aggregate.btree.validate, {});
+        expect(await aggregate.count(ctx)).toBe(40);
+        expect(
+          await aggregate.count(ctx, {
+            bounds: {
+              lower: { key: 10, inclusive: true },
+              upper: { key: 30, inclusive: false },
+            },
+          }),
+        ).toBe(20);
+
+        for (const doc of docs.filter((d) => d.value % 3 !== 0)) {
+          await aggregate.delete(ctx, doc);
+        }
+        await ctx.runQuery(components.aggregate.btree.validate, {});
+        expect(await aggregate.count(ctx)).toBe(14);
+        expect(
+          await aggregate.count(ctx, {
+            bounds: {
+              lower: { key: 10, inclusive: true },
+              upper: { key: 30, inclusive: false },
+            },
+          }),
+        ).toBe(6);
+      });
+    });
+
     test("should paginate a single undefined namespace", async () => {
       await t.run(async (ctx) => {
         await aggregate.insert(
@@ -247,6 +293,85 @@ describe("TableAggregate", () => {
     });
   });
 
+  describe("sum", () => {
+    let t: ConvexTest;
+
+    beforeEach(() => {
+      t = setupTest();
+    });
+
+    test("should reflect updates that only change the summed field", async () => {
+      const byName = new TableSearchTree<{
+        Key: string;
+        DataModel: DataModel;
+        TableName: "testItems";
+      }>(components.aggregate, {
+        sortKey: (doc) => doc.name,
+        sumValue: (doc) => doc.value,
+      });
+      await t.run(async (ctx) => {
+        const a = await testItem(ctx, { name: "a", value: 1 });
+        const b = await testItem(ctx, { name: "b", value: 2 });
+        await byName.insert(ctx, a);
+        await byName.insert(ctx, b);
+        expect(await byName.sum(ctx)).toBe(3);
+
+        await ctx.db.patch(a._id, { value: 10 });
+        const newA = (await ctx.db.get(a._id))!;
+        await byName.replace(ctx, a, newA);
+        expect(await byName.sum(ctx)).toBe(12);
+
+        await ctx.db.patch(b._id, { value: 20 });
+        const newB = (await ctx.db.get(b._id))!;
+        await byName.trigger()(ctx, {
+          id: b._id,
+          operation: "update",
+          oldDoc: b,
+          newDoc: newB,
+        });
+        expect(await byName.sum(ctx)).toBe(30);
+
+        await ctx.db.patch(b._id, { value: 5 });
+        await byName.idempotentTrigger()(ctx, {
+          id: b._id,
+          operation: "update",
+          oldDoc: newB,
+          newDoc: (await ctx.db.get(b._id))!,
+        });
+        expect(await byName.sum(ctx)).toBe(15);
+        expect(
+          await byName.sum(ctx, {
+            bounds: { lower: { key: "b", inclusive: true } },
+          }),
+        ).toBe(5);
+        expect((await byName.max(ctx))?.sumValue).toBe(5);
+        await ctx.runQuery(components.aggregate.btree.validate, {});
+      });
+    });
+
+    test("should reject summands that aren't finite", async () => {
+      const { aggregate } = createAggregates();
+      for (const value of [Infinity, -Infinity, NaN]) {
+        await expect(
+          t.run(async (ctx) => {
+            await aggregate.insert(
+              ctx,
+              await testItem(ctx, { name: "a", value }),
+            );
+          }),
+        ).rejects.toThrow(/INVALID_SUMMAND/);
+      }
+      await t.run(async (ctx) => {
+        const doc = await testItem(ctx, { name: "b", value: 3 });
+        await aggregate.insert(ctx, doc);
+        await expect(
+          aggregate.replace(ctx, doc, { ...doc, value: Infinity }),
+        ).rejects.toThrow(/INVALID_SUMMAND/);
+        expect(await aggregate.sum(ctx)).toBe(3);
+      });
+    });
+  });
+
   describe("atBatch", () => {
     const { aggregate } = createAggregates();
 
@@ -269,6 +394,72 @@ describe("TableAggregate", () => {
     });
   });
 
+  describe("at and indexOf", () => {
+    let t: ConvexTest;
+    let aggregate: ReturnType<typeof createAggregates>["aggregate"];
+
+    beforeEach(() => {
+      t = setupTest();
+      ({ aggregate } = createAggregates());
+    });
+
+    test("should look up items by rank from either end", async () => {
+      await t.run(async (ctx) => {
+        await aggregate.clear(ctx, { maxNodeSize: 4 });
+        for (let i = 0; i < 30; i++) {
+          await aggregate.insert(
+            ctx,
+            await testItem(ctx, { name: "name", value: i * 10 }),
+          );
+        }
+        expect((await aggregate.at(ctx, 0)).key).toBe(0);
+        expect((await aggregate.at(ctx, 17)).key).toBe(170);
+        expect((await aggregate.at(ctx, -1)).key).toBe(290);
+        expect((await aggregate.at(ctx, -30)).key).toBe(0);
+        const bounds = {
+          lower: { key: 100, inclusive: false },
+          upper: { key: 200, inclusive: true },
+        };
+        expect((await aggregate.at(ctx, 0, { bounds })).key).toBe(110);
+        expect((await aggregate.at(ctx, -2, { bounds })).key).toBe(190);
+        await expect(aggregate.at(ctx, 30)).rejects.toThrow();
+        await expect(aggregate.at(ctx, 10, { bounds })).rejects.toThrow();
+      });
+    });
+
+    test("should rank keys in ascending and descending order", async () => {
+      await t.run(async (ctx) => {
+        await aggregate.clear(ctx, { maxNodeSize: 4 });
+        const docs = [];
+        for (let i = 0; i < 30; i++) {
+          const doc = await testItem(ctx, { name: "name", value: i * 10 });
+          await aggregate.insert(ctx, doc);
+          docs.push(doc);
+        }
+        const tied = await testItem(ctx, { name: "tied", value: 50 });
+        await aggregate.insert(ctx, tied);
+
+        expect(await aggregate.indexOf(ctx, 0)).toBe(0);
+        expect(await aggregate.indexOf(ctx, 100)).toBe(11);
+        // Keys that aren't in the tree still have a rank.
+        expect(await aggregate.indexOf(ctx, 105)).toBe(12);
+        expect(await aggregate.indexOf(ctx, 290, { order: "desc" })).toBe(0);
+        expect(await aggregate.indexOf(ctx, 50, { order: "desc" })).toBe(24);
+
+        const [first, second] =
+          docs[5]._id < tied._id ? [docs[5], tied] : [tied, docs[5]];
+        expect(await aggregate.indexOf(ctx, 50, { id: first._id })).toBe(5);
+        expect(await aggregate.indexOf(ctx, 50, { id: second._id })).toBe(6);
+        expect(
+          await aggregate.indexOf(ctx, 50, { id: second._id, order: "desc" }),
+        ).toBe(24);
+
+        const bounds = { lower: { key: 100, inclusive: true } };
+        expect(await aggregate.indexOf(ctx, 150, { bounds })).toBe(5);
+      });
+    });
+  });
+
   describe("clearAll", () => {
     let t: ConvexTest;
     let aggregate: ReturnType<typeof createAggregates>["aggregate"];
@@ -364,9 +555,197 @@ describe("TableAggregate", () => {
       expect(countAfterSecondClear).toBe(0);
     });
   });
+
+  describe("backfill", () => {
+    let t: ConvexTest;
+    let aggregate: ReturnType<typeof createAggregates>["aggregate"];
+    // Scheduled runs are left pending; the test drives each page itself.
+    const backfillMutation = makeFunctionReference<"mutation">(
+      "backfill:backfillTestItems",
+    );
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      t = setupTest();
+      ({ aggregate } = createAggregates());
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should backfill existing documents page by page", async () => {
+      await t.run(async (ctx) => {
+        for (let i = 0; i < 25; i++) {
+          await testItem(ctx, { name: `item${i}`, value: i });
+        }
+        // A live write that already reached the tree through the idempotent
+        // trigger is not inserted twice.
+        const doc = await testItem(ctx, { name: "live", value: 100 });
+        await aggregate.insertIfDoesNotExist(ctx, doc);
+        expect(await aggregate.backfillStatus(ctx, "testItems")).toBeNull();
+      });
+      for (let page = 1; page <= 3; page++) {
+        await t.run(async (ctx) => {
+          await aggregate.backfill(ctx, {
+            table: "testItems",
+            mutation: backfillMutation,
+            batchSize: 10,
+          });
+          expect(await aggregate.backfillStatus(ctx, "testItems")).toEqual({
+            isDone: page === 3,
+            processed: Math.min(page * 10, 26),
+          });
+        });
+      }
+      await t.run(async (ctx) => {
+        // Once done, further runs do nothing.
+        await aggregate.backfill(ctx, {
+          table: "testItems",
+          mutation: backfillMutation,
+        });
+        expect(await aggregate.count(ctx)).toBe(26);
+        expect(await aggregate.sum(ctx)).toBe(400);
+        await aggregate.resetBackfill(ctx, "testItems");
+        expect(await aggregate.backfillStatus(ctx, "testItems")).toBeNull();
+      });
+    });
+  });
+
+  describe("reconcile", () => {
+    let t: ConvexTest;
+    let aggregateWithNamespace: ReturnType<
+      typeof createAggregates
+    >["aggregateWithNamespace"];
+
+    beforeEach(() => {
+      t = setupTest();
+      ({ aggregateWithNamespace } = createAggregates());
+    });
+
+    test("should report and fix differences from the table", async () => {
+      const ids = await t.run(async (ctx) => {
+        const insert = async (album: string, score: number) => {
+          const id = await ctx.db.insert("photos", { album, url: "", score });
+          await aggregateWithNamespace.insert(ctx, (await ctx.db.get(id))!);
+          return id;
+        };
+        await insert("a", 1);
+        const extra = await insert("a", 2);
+        const moved = await insert("b", 3);
+        const missing = await ctx.db.insert("photos", {
+          album: "b",
+          url: "",
+          score: 4,
+        });
+        await ctx.db.delete(extra);
+        await ctx.db.patch(moved, { album: "c" });
+        return { extra, moved, missing };
+      });
+      const reconcile = (fix: boolean) =>
+        t.run(async (ctx) => {
+          const report = { missing: [], extra: [], mismatched: [] } as Omit<
+            Awaited<ReturnType<typeof aggregateWithNamespace.reconcile>>,
+            "cursor" | "isDone"
+          >;
+          let cursor: string | undefined = undefined;
+          for (;;) {
+            const result = await aggregateWithNamespace.reconcile(ctx, {
+              table: "photos",
+              order: (q) => q.withIndex("by_album_score"),
+              cursor,
+              pageSize: 2,
+              fix,
+            });
+            report.missing.push(...result.missing);
+            report.extra.push(...result.extra);
+            report.mismatched.push(...result.mismatched);
+            if (result.isDone) {
+              return report;
+            }
+            cursor = result.cursor;
+          }
+        });
+      const expected = {
+        missing: [
+          { key: 4, id: ids.missing, namespace: "b" },
+          { key: 3, id: ids.moved, namespace: "c" },
+        ],
+        extra: [{ key: 2, id: ids.extra, namespace: "a" }],
+        mismatched: [
+          {
+            key: 3,
+            id: ids.moved,
+            namespace: "b",
+            expectedKey: 3,
+            expectedNamespace: "c",
+          },
+        ],
+      };
+      expect(await reconcile(false)).toEqual(expected);
+      expect(await reconcile(true)).toEqual(expected);
+      expect(await reconcile(false)).toEqual({
+        missing: [],
+        extra: [],
+        mismatched: [],
+      });
+      await t.run(async (ctx) => {
+        expect(
+          await aggregateWithNamespace.count(ctx, { namespace: "a" }),
+        ).toBe(1);
+        expect(
+          await aggregateWithNamespace.count(ctx, { namespace: "b" }),
+        ).toBe(1);
+        expect(
+          await aggregateWithNamespace.count(ctx, { namespace: "c" }),
+        ).toBe(1);
+      });
+    });
+
+    test("should fix items moved to an earlier key when ids are tracked", async () => {
+      const id = await t.run(async (ctx) => {
+        await aggregateWithNamespace.clear(ctx, {
+          namespace: "a",
+          trackIds: true,
+        });
+        const id = await ctx.db.insert("photos", {
+          album: "a",
+          url: "",
+          score: 5,
+        });
+        await aggregateWithNamespace.insert(ctx, (await ctx.db.get(id))!);
+        await ctx.db.patch(id, { score: 1 });
+        return id;
+      });
+      await t.run(async (ctx) => {
+        // The document comes before its stale item, so it's fixed first.
+        const result = await aggregateWithNamespace.reconcile(ctx, {
+          table: "photos",
+          order: (q) => q.withIndex("by_album_score"),
+          fix: true,
+        });
+        expect(result.missing).toEqual([{ key: 1, id, namespace: "a" }]);
+        expect(result.mismatched).toEqual([
+          {
+            key: 5,
+            id,
+            namespace: "a",
+            expectedKey: 1,
+            expectedNamespace: "a",
+          },
+        ]);
+        expect(
+          await aggregateWithNamespace.keyOf(ctx, { id, namespace: "a" }),
+        ).toBe(1);
+        expect(
+          await aggregateWithNamespace.count(ctx, { namespace: "a" }),
+        ).toBe(1);
+      });
+    });
+  });
 });
 
-describe("TableAggregate with namespace", () => {
+describe("TableSearchTree with namespace", () => {
   let t: ConvexTest;
   let aggregateWithNamespace: ReturnType<
     typeof createAggregates
@@ -824,7 +1203,7 @@ describe("TableAggregate with namespace", () => {
     });
 
     test("should respect inclusive bounds with array keys", async () => {
-      const aggregateWithArrayKeys = new TableAggregate(components.aggregate, {
+      const aggregateWithArrayKeys = new TableSearchTree(components.aggregate, {
         sortKey: (doc) => [doc.value, doc.name],
       });
 
@@ -881,3 +1260,1794 @@ describe("TableAggregate with namespace", () => {
     });
   });
 });
+
+describe("DirectSearchTree", () => {
+  let t: ConvexTest;
+  let tree: DirectSearchTree<{ Key: number; Id: string; Namespace: string }>;
+
+  beforeEach(() => {
+    t = setupTest();
+    tree = new DirectSearchTree(components.aggregate);
+  });
+
+  describe("point lookups", () => {
+    test("should get and check items by key and id", async () => {
+      await t.run(async (ctx) => {
+        expect(await tree.has(ctx, { key: 1, id: "a", namespace: "ns" })).toBe(
+          false,
+        );
+        await tree.insert(ctx, { key: 1, id: "a", namespace: "ns" });
+        await tree.insert(ctx, {
+          key: 2,
+          id: "b",
+          namespace: "ns",
+          sumValue: 3,
+        });
+        expect(await tree.has(ctx, { key: 1, id: "a", namespace: "ns" })).toBe(
+          true,
+        );
+        expect(await tree.has(ctx, { key: 1, id: "b", namespace: "ns" })).toBe(
+          false,
+        );
+        expect(
+          await tree.has(ctx, { key: 1, id: "a", namespace: "other" }),
+        ).toBe(false);
+        expect(
+          await tree.get(ctx, { key: 2, id: "b", namespace: "ns" }),
+        ).toEqual({ key: 2, id: "b", sumValue: 3 });
+        expect(
+          await tree.get(ctx, { key: 3, id: "b", namespace: "ns" }),
+        ).toBeNull();
+      });
+    });
+
+    test("should list every id stored under a key", async () => {
+      await t.run(async (ctx) => {
+        for (const [key, id] of [
+          [1, "x"],
+          [2, "c"],
+          [2, "a"],
+          [2, "b"],
+          [3, "y"],
+        ] as const) {
+          await tree.insert(ctx, { key, id, namespace: "ns" });
+        }
+        expect(await tree.getIdsForKey(ctx, 2, { namespace: "ns" })).toEqual([
+          "a",
+          "b",
+          "c",
+        ]);
+        expect(await tree.getIdsForKey(ctx, 4, { namespace: "ns" })).toEqual(
+          [],
+        );
+        expect(await tree.getIdsForKey(ctx, 2, { namespace: "other" })).toEqual(
+          [],
+        );
+      });
+    });
+  });
+
+  describe("applyBatch", () => {
+    test("should apply mixed operations across namespaces in order", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 1, id: "a", namespace: "x" });
+        await tree.applyBatch(ctx, [
+          { type: "insert", key: 2, id: "b", namespace: "x", sumValue: 5 },
+          { type: "insert", key: 3, id: "c", namespace: "y" },
+          { type: "delete", key: 1, id: "a", namespace: "x" },
+          {
+            type: "replace",
+            key: 3,
+            id: "c",
+            namespace: "y",
+            newKey: 4,
+            newNamespace: "x",
+            sumValue: 7,
+          },
+          { type: "replace", key: 2, id: "b", namespace: "x", newKey: 5 },
+          { type: "insertIfDoesNotExist", key: 5, id: "b", namespace: "x" },
+          { type: "insertIfDoesNotExist", key: 6, id: "d", namespace: "y" },
+          { type: "deleteIfExists", key: 9, id: "z", namespace: "y" },
+        ]);
+        const x = [];
+        for await (const item of tree.iter(ctx, { namespace: "x" })) {
+          x.push(item);
+        }
+        expect(x).toEqual([
+          { key: 4, id: "c", sumValue: 7 },
+          { key: 5, id: "b", sumValue: 0 },
+        ]);
+        expect(await tree.count(ctx, { namespace: "y" })).toBe(1);
+        expect(await tree.has(ctx, { key: 6, id: "d", namespace: "y" })).toBe(
+          true,
+        );
+      });
+    });
+
+    test("should apply nothing if any operation fails", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 1, id: "a", namespace: "x" });
+      });
+      await expect(
+        t.run(async (ctx) => {
+          await tree.applyBatch(ctx, [
+            { type: "insert", key: 2, id: "b", namespace: "x" },
+            { type: "delete", key: 3, id: "c", namespace: "x" },
+          ]);
+        }),
+      ).rejects.toThrow();
+      await t.run(async (ctx) => {
+        expect(await tree.count(ctx, { namespace: "x" })).toBe(1);
+      });
+    });
+  });
+
+  describe("non-string IDs", () => {
+    test("should store, order and look up IDs of any Convex type", async () => {
+      const mixed = new DirectSearchTree<{ Key: number; Id: Value }>(
+        components.aggregate,
+      );
+      await t.run(async (ctx) => {
+        const ids: Value[] = [["order", 7], 42, "cus_123", { slug: "x" }];
+        for (const id of ids) {
+          await mixed.insert(ctx, { key: 1, id });
+        }
+        await mixed.insert(ctx, { key: 0, id: 42 });
+        expect(await mixed.getIdsForKey(ctx, 1)).toEqual([
+          "cus_123",
+          42,
+          ["order", 7],
+          { slug: "x" },
+        ]);
+        expect(await mixed.has(ctx, { key: 1, id: ["order", 7] })).toBe(true);
+        expect(await mixed.has(ctx, { key: 1, id: ["order", 8] })).toBe(false);
+        expect(
+          await mixed.count(ctx, {
+            bounds: { lower: { key: 1, id: 42, inclusive: false } },
+          }),
+        ).toBe(2);
+        expect(await mixed.indexOf(ctx, 1, { id: ["order", 7] })).toBe(3);
+        await mixed.delete(ctx, { key: 1, id: { slug: "x" } });
+        expect(await mixed.max(ctx)).toEqual({
+          key: 1,
+          id: ["order", 7],
+          sumValue: 0,
+        });
+      });
+    });
+  });
+
+  describe("payload", () => {
+    test("should return payloads with items and update them in place", async () => {
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, { namespace: "ns", maxNodeSize: 4 });
+        for (let i = 0; i < 20; i++) {
+          await tree.insert(ctx, {
+            key: i,
+            id: `id${i}`,
+            namespace: "ns",
+            sumValue: 1,
+            payload: { label: `item ${i}` },
+          });
+        }
+        expect(await tree.min(ctx, { namespace: "ns" })).toEqual({
+          key: 0,
+          id: "id0",
+          sumValue: 1,
+          payload: { label: "item 0" },
+        });
+        const { page } = await tree.paginate(ctx, {
+          namespace: "ns",
+          pageSize: 20,
+        });
+        expect(page.map((item) => item.payload)).toEqual(
+          Array.from({ length: 20 }, (_, i) => ({ label: `item ${i}` })),
+        );
+
+        // Same key, so the item is updated where it is.
+        await tree.replace(
+          ctx,
+          { key: 5, id: "id5", namespace: "ns" },
+          { key: 5, namespace: "ns", sumValue: 3, payload: "renamed" },
+        );
+        expect(
+          await tree.get(ctx, { key: 5, id: "id5", namespace: "ns" }),
+        ).toEqual({ key: 5, id: "id5", sumValue: 3, payload: "renamed" });
+        expect(await tree.sum(ctx, { namespace: "ns" })).toBe(22);
+        await tree.replace(
+          ctx,
+          { key: 19, id: "id19", namespace: "ns" },
+          { key: 19, namespace: "ns", sumValue: 1 },
+        );
+        expect(await tree.max(ctx, { namespace: "ns" })).toEqual({
+          key: 19,
+          id: "id19",
+          sumValue: 1,
+        });
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+      });
+    });
+
+    test("should reject oversized payloads", async () => {
+      await expect(
+        t.run(async (ctx) => {
+          await tree.insert(ctx, {
+            key: 1,
+            id: "a",
+            namespace: "ns",
+            payload: "x".repeat(2000),
+          });
+        }),
+      ).rejects.toThrow(/PAYLOAD_TOO_LARGE/);
+    });
+
+    test("should measure payloads in UTF-8 bytes", async () => {
+      // 400 characters, but 1200 bytes.
+      await expect(
+        t.run(async (ctx) => {
+          await tree.insert(ctx, {
+            key: 1,
+            id: "a",
+            namespace: "ns",
+            payload: "€".repeat(400),
+          });
+        }),
+      ).rejects.toThrow(/PAYLOAD_TOO_LARGE/);
+    });
+
+    test("should keep TableSearchTree payloads in sync with documents", async () => {
+      const withName = new TableSearchTree<{
+        Key: number;
+        DataModel: DataModel;
+        TableName: "testItems";
+      }>(components.aggregate, {
+        sortKey: (doc) => doc.value,
+        payload: (doc) => doc.name,
+      });
+      await t.run(async (ctx) => {
+        const doc = await testItem(ctx, { name: "before", value: 1 });
+        await withName.insert(ctx, doc);
+        await ctx.db.patch(doc._id, { name: "after" });
+        await withName.trigger()(ctx, {
+          id: doc._id,
+          operation: "update",
+          oldDoc: doc,
+          newDoc: (await ctx.db.get(doc._id))!,
+        });
+        const items = [];
+        for await (const item of withName.iter(ctx)) {
+          items.push(item);
+        }
+        expect(items).toEqual([
+          { key: 1, id: doc._id, sumValue: 0, payload: "after" },
+        ]);
+      });
+    });
+  });
+
+  describe("bulkLoad", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should build a valid tree from sorted pages", async () => {
+      for (const n of [0, 1, 4, 5, 13, 31, 100]) {
+        const namespace = `n${n}`;
+        await t.run(async (ctx) => {
+          await tree.clear(ctx, { namespace, maxNodeSize: 4 });
+        });
+        for (let start = 0; start < Math.max(n, 1); start += 7) {
+          await t.run(async (ctx) => {
+            const items = [];
+            for (let i = start; i < Math.min(start + 7, n); i++) {
+              items.push({ key: i, id: `id${i}`, sumValue: i });
+            }
+            await tree.bulkLoad(ctx, { items, namespace });
+          });
+        }
+        await t.run(async (ctx) => {
+          expect(await tree.bulkLoadStatus(ctx, { namespace })).toEqual({
+            count: n,
+            last:
+              n === 0
+                ? null
+                : { key: n - 1, id: `id${n - 1}`, sumValue: n - 1 },
+          });
+          await tree.finishBulkLoad(ctx, { namespace });
+          await ctx.runQuery(components.aggregate.btree.validate, {
+            namespace,
+          });
+          expect(await tree.bulkLoadStatus(ctx, { namespace })).toBeNull();
+          expect(await tree.count(ctx, { namespace })).toBe(n);
+          const keys = [];
+          for await (const item of tree.iter(ctx, { namespace })) {
+            keys.push(item.key);
+          }
+          expect(keys).toEqual(Array.from({ length: n }, (_, i) => i));
+          expect(await tree.sum(ctx, { namespace })).toBe(
+            keys.reduce((a, b) => a + b, 0),
+          );
+          if (n > 0) {
+            expect(await tree.at(ctx, n - 1, { namespace })).toEqual({
+              key: n - 1,
+              id: `id${n - 1}`,
+              sumValue: n - 1,
+            });
+          }
+          // The loaded tree accepts ordinary writes.
+          await tree.insert(ctx, { key: -1, id: "new", namespace });
+          await tree.delete(ctx, { key: -1, id: "new", namespace });
+          await ctx.runQuery(components.aggregate.btree.validate, {
+            namespace,
+          });
+        });
+        await t.finishAllScheduledFunctions(vi.runAllTimers);
+      }
+    });
+
+    test("should replace existing items and reject unsorted input", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 10, id: "old", namespace: "ns" });
+        await tree.bulkLoad(ctx, {
+          items: [
+            { key: 1, id: "a" },
+            { key: 1, id: "b" },
+          ],
+          namespace: "ns",
+        });
+      });
+      await expect(
+        t.run(async (ctx) => {
+          await tree.bulkLoad(ctx, {
+            items: [{ key: 1, id: "a" }],
+            namespace: "ns",
+          });
+        }),
+      ).rejects.toThrow(/strictly increasing/);
+      await t.run(async (ctx) => {
+        // The old items stay readable until the load finishes.
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(1);
+        await tree.finishBulkLoad(ctx, { namespace: "ns" });
+        expect(await tree.getIdsForKey(ctx, 1, { namespace: "ns" })).toEqual([
+          "a",
+          "b",
+        ]);
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(2);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should leave the tree unchanged when cancelled", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 10, id: "old", namespace: "ns" });
+        await tree.bulkLoad(ctx, {
+          items: [{ key: 1, id: "a" }],
+          namespace: "ns",
+        });
+        await tree.cancelBulkLoad(ctx, { namespace: "ns" });
+        expect(await tree.bulkLoadStatus(ctx, { namespace: "ns" })).toBeNull();
+        await expect(
+          tree.finishBulkLoad(ctx, { namespace: "ns" }),
+        ).rejects.toThrow();
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(1);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should keep buffering off and be cancelled by clear", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 10, id: "old", namespace: "ns" });
+        await tree.bulkLoad(ctx, {
+          items: [{ key: 1, id: "a" }],
+          namespace: "ns",
+        });
+        await expect(
+          tree.setBuffered(ctx, true, { namespace: "ns" }),
+        ).rejects.toThrow(/finish or cancel it/);
+        await tree.clear(ctx, { namespace: "ns" });
+        expect(await tree.bulkLoadStatus(ctx, { namespace: "ns" })).toBeNull();
+        await expect(
+          tree.finishBulkLoad(ctx, { namespace: "ns" }),
+        ).rejects.toThrow();
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(0);
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+  });
+
+  describe("string prefix bounds", () => {
+    test("should find keys starting with a string", async () => {
+      const names = new DirectSearchTree<{ Key: string; Id: string }>(
+        components.aggregate,
+        { index: "names" },
+      );
+      const byOrg = new DirectSearchTree<{
+        Key: [number, string];
+        Id: string;
+      }>(components.aggregate, { index: "byOrg" });
+      await t.run(async (ctx) => {
+        for (const name of ["al", "alex", "ali", "alice", "alj", "bob"]) {
+          await names.insert(ctx, { key: name, id: name });
+          await byOrg.insert(ctx, { key: [1, name], id: name });
+          await byOrg.insert(ctx, { key: [2, name], id: name });
+        }
+        const page = await names.paginate(ctx, {
+          bounds: { stringPrefix: "ali" },
+        });
+        expect(page.page.map((item) => item.key)).toEqual(["ali", "alice"]);
+        expect(await names.count(ctx, { bounds: { stringPrefix: "" } })).toBe(
+          6,
+        );
+        expect(
+          await byOrg.count(ctx, {
+            bounds: { prefix: [1, { stringPrefix: "al" }] },
+          }),
+        ).toBe(5);
+      });
+    });
+  });
+
+  describe("prefix range bounds", () => {
+    test("should bound the element after the prefix", async () => {
+      const scores = new DirectSearchTree<{
+        Key: [string, number];
+        Id: string;
+      }>(components.aggregate, { index: "scores" });
+      await t.run(async (ctx) => {
+        for (const [user, score] of [
+          ["alice", 40],
+          ["alice", 50],
+          ["alice", 75],
+          ["alice", 90],
+          ["alice", 95],
+          ["bob", 60],
+        ] as const) {
+          await scores.insert(ctx, {
+            key: [user, score],
+            id: `${user}${score}`,
+            sumValue: score,
+          });
+        }
+        const bounds = {
+          prefix: ["alice"] as [string],
+          lower: { key: 50 },
+          upper: { key: 90, inclusive: false },
+        };
+        expect(await scores.count(ctx, { bounds })).toBe(2);
+        expect(await scores.sum(ctx, { bounds })).toBe(125);
+        expect(await scores.max(ctx, { bounds })).toEqual({
+          key: ["alice", 75],
+          id: "alice75",
+          sumValue: 75,
+        });
+      });
+    });
+  });
+
+  describe("multiple bounds", () => {
+    test("should paginate over the union of the bounds", async () => {
+      const tasks = new DirectSearchTree<{
+        Key: [string, number];
+        Id: string;
+      }>(components.aggregate, { index: "tasks" });
+      await t.run(async (ctx) => {
+        for (const [status, priority] of [
+          ["blocked", 1],
+          ["blocked", 2],
+          ["done", 1],
+          ["done", 2],
+          ["open", 1],
+          ["open", 2],
+          ["open", 3],
+        ] as const) {
+          await tasks.insert(ctx, {
+            key: [status, priority],
+            id: `${status}${priority}`,
+          });
+        }
+        const bounds = [
+          { prefix: ["open"] as [string] },
+          { prefix: ["blocked"] as [string] },
+          // Overlaps the first bounds.
+          { lower: { key: ["open", 2] as [string, number], inclusive: true } },
+        ];
+        const ids = async (order: "asc" | "desc") => {
+          const ids = [];
+          for await (const item of tasks.iter(ctx, {
+            bounds,
+            order,
+            pageSize: 2,
+          })) {
+            ids.push(item.id);
+          }
+          return ids;
+        };
+        const expected = ["blocked1", "blocked2", "open1", "open2", "open3"];
+        expect(await ids("asc")).toEqual(expected);
+        expect(await ids("desc")).toEqual([...expected].reverse());
+
+        const first = await tasks.paginate(ctx, { bounds, pageSize: 2 });
+        expect(first.page.map((item) => item.id)).toEqual([
+          "blocked1",
+          "blocked2",
+        ]);
+        expect(first.isDone).toBe(false);
+        const second = await tasks.paginate(ctx, {
+          bounds,
+          cursor: first.cursor,
+          pageSize: 10,
+        });
+        expect(second.page.map((item) => item.id)).toEqual([
+          "open1",
+          "open2",
+          "open3",
+        ]);
+        expect(second.isDone).toBe(true);
+        expect(
+          (await tasks.paginate(ctx, { bounds: [], pageSize: 10 })).page,
+        ).toEqual([]);
+      });
+    });
+  });
+
+  describe("joins", () => {
+    test("should intersect and subtract two trees in order", async () => {
+      const tagged = (index: string) =>
+        new DirectSearchTree<{ Key: number; Id: string }>(
+          components.aggregate,
+          { index },
+        );
+      const red = tagged("red");
+      const round = tagged("round");
+      await t.run(async (ctx) => {
+        for (const [score, id] of [
+          [1, "apple"],
+          [2, "cherry"],
+          [2, "strawberry"],
+          [5, "tomato"],
+        ] as const) {
+          await red.insert(ctx, { key: score, id, sumValue: score });
+        }
+        for (const [score, id] of [
+          [1, "apple"],
+          [2, "orange"],
+          [2, "strawberry"],
+          [5, "tomato"],
+          [7, "ball"],
+        ] as const) {
+          await round.insert(ctx, { key: score, id });
+        }
+        const ids = async (
+          type: "inner" | "anti",
+          order: "asc" | "desc" = "asc",
+        ) => {
+          const ids = [];
+          for await (const { left } of iterJoin(ctx, {
+            type,
+            left: { tree: red },
+            right: { tree: round },
+            order,
+            pageSize: 1,
+          })) {
+            ids.push(left.id);
+          }
+          return ids;
+        };
+        expect(await ids("inner")).toEqual(["apple", "strawberry", "tomato"]);
+        expect(await ids("inner", "desc")).toEqual([
+          "tomato",
+          "strawberry",
+          "apple",
+        ]);
+        expect(await ids("anti")).toEqual(["cherry"]);
+        expect(await ids("anti", "desc")).toEqual(["cherry"]);
+
+        const first = await paginateJoin(ctx, {
+          type: "inner",
+          left: { tree: red, bounds: { lower: { key: 2, inclusive: true } } },
+          right: { tree: round },
+          pageSize: 1,
+        });
+        expect(first.page).toEqual([
+          {
+            left: { key: 2, id: "strawberry", sumValue: 2 },
+            right: { key: 2, id: "strawberry", sumValue: 0 },
+          },
+        ]);
+        expect(first.isDone).toBe(false);
+        const second = await paginateJoin(ctx, {
+          type: "inner",
+          left: { tree: red, bounds: { lower: { key: 2, inclusive: true } } },
+          right: { tree: round },
+          cursor: first.cursor,
+        });
+        expect(second.page.map(({ left }) => left.id)).toEqual(["tomato"]);
+        expect(second.isDone).toBe(true);
+      });
+    });
+  });
+
+  describe("around", () => {
+    test("should get the items on either side of an item", async () => {
+      await t.run(async (ctx) => {
+        for (const [key, id] of [
+          [10, "a"],
+          [20, "b"],
+          [20, "c"],
+          [30, "d"],
+          [40, "e"],
+        ] as const) {
+          await tree.insert(ctx, { key, id, namespace: "ns" });
+        }
+        const ids = (items: { id: string }[]) => items.map((item) => item.id);
+        const c = { key: 20, id: "c", namespace: "ns" };
+        const window = await tree.around(ctx, c, { before: 2, after: 5 });
+        expect(ids(window.before)).toEqual(["a", "b"]);
+        expect(ids(window.after)).toEqual(["d", "e"]);
+        const bounded = await tree.around(ctx, c, {
+          before: 5,
+          after: 5,
+          bounds: { lower: { key: 20, inclusive: true } },
+        });
+        expect(ids(bounded.before)).toEqual(["b"]);
+        expect(ids(bounded.after)).toEqual(["d", "e"]);
+        expect((await tree.next(ctx, c))?.id).toBe("d");
+        expect((await tree.prev(ctx, c))?.id).toBe("b");
+        // Positions between items work too.
+        expect(
+          (await tree.next(ctx, { key: 25, id: "z", namespace: "ns" }))?.id,
+        ).toBe("d");
+        expect(
+          await tree.prev(ctx, { key: 10, id: "a", namespace: "ns" }),
+        ).toBeNull();
+      });
+    });
+  });
+
+  describe("paginateConvex", () => {
+    test("should keep page boundaries with endCursor", async () => {
+      await t.run(async (ctx) => {
+        for (const key of [1, 2, 3, 4, 5]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        const keys = (page: { key: number }[]) => page.map((item) => item.key);
+        const first = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: null },
+          { namespace: "ns" },
+        );
+        expect(keys(first.page)).toEqual([1, 2]);
+        expect(first.isDone).toBe(false);
+        const second = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: first.continueCursor },
+          { namespace: "ns" },
+        );
+        expect(keys(second.page)).toEqual([3, 4]);
+
+        // New items land in the first page when it's refreshed.
+        for (const key of [1.25, 1.5, 1.75]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        const refreshed = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: null, endCursor: first.continueCursor },
+          { namespace: "ns" },
+        );
+        expect(keys(refreshed.page)).toEqual([1, 1.25, 1.5, 1.75, 2]);
+        expect(refreshed.continueCursor).toBe(first.continueCursor);
+        expect(refreshed.pageStatus).toBe("SplitRecommended");
+        const split = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: null, endCursor: refreshed.splitCursor },
+          { namespace: "ns" },
+        );
+        expect(keys(split.page)).toEqual([1, 1.25]);
+
+        const last = await tree.paginateConvex(
+          ctx,
+          { numItems: 10, cursor: second.continueCursor },
+          { namespace: "ns" },
+        );
+        expect(keys(last.page)).toEqual([5]);
+        expect(last.isDone).toBe(true);
+        const desc = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: null },
+          { namespace: "ns", order: "desc" },
+        );
+        expect(keys(desc.page)).toEqual([5, 4]);
+      });
+    });
+
+    test("should bound pages that are empty or too long", async () => {
+      await t.run(async (ctx) => {
+        for (let key = 1; key <= 20; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        const keys = (page: { key: number }[]) => page.map((item) => item.key);
+        for (const order of ["asc", "desc"] as const) {
+          const empty = await tree.paginateConvex(
+            ctx,
+            { numItems: 0, cursor: null },
+            { namespace: "ns", order },
+          );
+          expect(empty.page).toEqual([]);
+          expect(empty.isDone).toBe(false);
+          const next = await tree.paginateConvex(
+            ctx,
+            { numItems: 1, cursor: empty.continueCursor },
+            { namespace: "ns", order },
+          );
+          expect(keys(next.page)).toEqual([order === "asc" ? 1 : 20]);
+        }
+
+        // An empty endCursor doesn't make the page read to the end.
+        const last = await tree.paginateConvex(
+          ctx,
+          { numItems: 2, cursor: null, endCursor: "" },
+          { namespace: "ns" },
+        );
+        expect(keys(last.page)).toEqual([1, 2]);
+        expect(last.isDone).toBe(false);
+
+        const first = await tree.paginateConvex(
+          ctx,
+          { numItems: 15, cursor: null },
+          { namespace: "ns" },
+        );
+        const long = await tree.paginateConvex(
+          ctx,
+          { numItems: 1, cursor: null, endCursor: first.continueCursor },
+          { namespace: "ns" },
+        );
+        expect(keys(long.page)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        expect(long.pageStatus).toBe("SplitRequired");
+        const split = await tree.paginateConvex(
+          ctx,
+          {
+            numItems: 5,
+            cursor: long.splitCursor!,
+            endCursor: first.continueCursor,
+          },
+          { namespace: "ns" },
+        );
+        expect(keys(split.page)).toEqual([11, 12, 13, 14, 15]);
+        expect(split.pageStatus).toBeNull();
+      });
+    });
+  });
+
+  describe("nearest", () => {
+    test("should find the closest keys on either side", async () => {
+      await t.run(async (ctx) => {
+        for (const key of [1, 4, 6, 10, 20]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        const nearest = async (key: number, k?: number) =>
+          (await tree.nearest(ctx, key, { namespace: "ns", k })).map(
+            (item) => item.key,
+          );
+        expect(await nearest(5)).toEqual([4]);
+        expect(await nearest(5, 3)).toEqual([4, 6, 1]);
+        expect(await nearest(10, 2)).toEqual([10, 6]);
+        expect(await nearest(100, 2)).toEqual([20, 10]);
+        expect(await nearest(5, 10)).toEqual([4, 6, 1, 10, 20]);
+        expect(
+          (
+            await tree.nearest(ctx, 5, {
+              namespace: "ns",
+              k: 2,
+              bounds: { lower: { key: 5, inclusive: true } },
+            })
+          ).map((item) => item.key),
+        ).toEqual([6, 10]);
+      });
+    });
+
+    test("should measure tuple keys by their last element", async () => {
+      const events = new DirectSearchTree<{
+        Key: [string, number];
+        Id: string;
+      }>(components.aggregate, { index: "events" });
+      await t.run(async (ctx) => {
+        for (const [user, time] of [
+          ["alice", 100],
+          ["alice", 130],
+          ["bob", 110],
+          ["bob", 125],
+        ] as const) {
+          await events.insert(ctx, { key: [user, time], id: `${user}${time}` });
+        }
+        const ids = (items: { id: string }[]) => items.map((item) => item.id);
+        expect(
+          ids(await events.nearest(ctx, ["alice", 120], { k: 2 })),
+        ).toEqual(["alice130", "alice100"]);
+        expect(
+          ids(
+            await events.nearest(ctx, ["alice", 120], {
+              k: 2,
+              bounds: { prefix: ["alice"], upper: { key: 120 } },
+            }),
+          ),
+        ).toEqual(["alice100"]);
+      });
+    });
+
+    test("should reject keys that don't end in a number", async () => {
+      const names = new DirectSearchTree<{ Key: string; Id: string }>(
+        components.aggregate,
+        { index: "names" },
+      );
+      const events = new DirectSearchTree<{
+        Key: [number, string];
+        Id: string;
+      }>(components.aggregate, { index: "events" });
+      await t.run(async (ctx) => {
+        // Even when there's nothing to measure against.
+        await expect(names.nearest(ctx, "bob")).rejects.toThrow(
+          /numbers or bigints, got "bob"/,
+        );
+        await events.insert(ctx, { key: [1, "a"], id: "1a" });
+        await expect(events.nearest(ctx, [1, "b"])).rejects.toThrow(
+          /numbers or bigints/,
+        );
+      });
+    });
+  });
+
+  describe("key normalization", () => {
+    test("should sort and match keys ignoring case and accents", async () => {
+      const names = new DirectSearchTree<{ Key: string; Id: string }>(
+        components.aggregate,
+        { index: "names", normalize: { caseFold: true, stripAccents: true } },
+      );
+      await t.run(async (ctx) => {
+        for (const name of ["banana", "Apple", "\u00c4pple", "apricot"]) {
+          await names.insert(ctx, { key: name, id: name });
+        }
+        const ids = [];
+        for await (const item of names.iter(ctx)) {
+          ids.push(item.id);
+        }
+        expect(ids).toEqual(["Apple", "\u00c4pple", "apricot", "banana"]);
+        expect(
+          await names.get(ctx, { key: "APPLE", id: "\u00c4pple" }),
+        ).toEqual({ key: "apple", id: "\u00c4pple", sumValue: 0 });
+        expect(
+          await names.count(ctx, { bounds: { stringPrefix: "\u00c1P" } }),
+        ).toBe(3);
+        expect(
+          await names.count(ctx, {
+            bounds: { upper: { key: "APPLE", inclusive: true } },
+          }),
+        ).toBe(2);
+        await names.delete(ctx, { key: "\u00e4PPLE", id: "Apple" });
+        expect(await names.count(ctx)).toBe(3);
+      });
+    });
+
+    test("should normalize tuple keys element-wise", async () => {
+      const byOrg = new DirectSearchTree<{
+        Key: [string, string];
+        Id: string;
+      }>(components.aggregate, {
+        index: "byOrg",
+        normalize: [null, { caseFold: true }],
+      });
+      await t.run(async (ctx) => {
+        await byOrg.applyBatch(ctx, [
+          { type: "insert", key: ["Org", "Alice"], id: "a" },
+          { type: "insert", key: ["org", "ALEX"], id: "b" },
+        ]);
+        expect(
+          await byOrg.count(ctx, { bounds: { prefix: ["Org", "alice"] } }),
+        ).toBe(1);
+        expect(
+          await byOrg.count(ctx, {
+            bounds: { prefix: ["org", { stringPrefix: "AL" }] },
+          }),
+        ).toBe(1);
+        expect(await byOrg.at(ctx, 0)).toEqual({
+          key: ["Org", "alice"],
+          id: "a",
+          sumValue: 0,
+        });
+      });
+    });
+
+    test("should compare normalized keys when reconciling", async () => {
+      const aggregate = new TableSearchTree<{
+        Key: string;
+        DataModel: DataModel;
+        TableName: "testItems";
+      }>(components.aggregate, {
+        index: "testItemNames",
+        sortKey: (doc) => doc.name,
+        normalize: { caseFold: true },
+      });
+      await t.run(async (ctx) => {
+        const doc = await testItem(ctx, { name: "Alice", value: 1 });
+        await aggregate.insert(ctx, doc);
+        expect(await aggregate.max(ctx)).toMatchObject({ key: "alice" });
+        const result = await aggregate.reconcile(ctx, { table: "testItems" });
+        const next = await aggregate.reconcile(ctx, {
+          table: "testItems",
+          cursor: result.cursor,
+        });
+        expect([...next.missing, ...next.extra, ...next.mismatched]).toEqual(
+          [],
+        );
+      });
+    });
+  });
+
+  describe("by id", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should find, move and delete items by id alone", async () => {
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, {
+          namespace: "ns",
+          maxNodeSize: 4,
+          trackIds: true,
+        });
+        for (let i = 0; i < 20; i++) {
+          await tree.insert(ctx, {
+            key: i,
+            id: `id${i}`,
+            namespace: "ns",
+            sumValue: i,
+          });
+        }
+        expect(await tree.keyOf(ctx, { id: "id7", namespace: "ns" })).toBe(7);
+        expect(
+          await tree.keyOf(ctx, { id: "missing", namespace: "ns" }),
+        ).toBeNull();
+        await expect(
+          tree.insert(ctx, { key: 100, id: "id7", namespace: "ns" }),
+        ).rejects.toThrow(/already in the tree/);
+
+        await tree.updateKeyById(ctx, {
+          id: "id7",
+          newKey: 70,
+          namespace: "ns",
+        });
+        expect(await tree.keyOf(ctx, { id: "id7", namespace: "ns" })).toBe(70);
+        expect(await tree.max(ctx, { namespace: "ns" })).toEqual({
+          key: 70,
+          id: "id7",
+          sumValue: 7,
+        });
+        await tree.deleteById(ctx, { id: "id3", namespace: "ns" });
+        expect(
+          await tree.keyOf(ctx, { id: "id3", namespace: "ns" }),
+        ).toBeNull();
+        await expect(
+          tree.deleteById(ctx, { id: "id3", namespace: "ns" }),
+        ).rejects.toThrow(/not found/);
+        // Ordinary writes keep the ids up to date.
+        await tree.replace(
+          ctx,
+          { key: 5, id: "id5", namespace: "ns" },
+          { key: 50, namespace: "ns" },
+        );
+        expect(await tree.keyOf(ctx, { id: "id5", namespace: "ns" })).toBe(50);
+        await tree.delete(ctx, { key: 6, id: "id6", namespace: "ns" });
+        expect(
+          await tree.keyOf(ctx, { id: "id6", namespace: "ns" }),
+        ).toBeNull();
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(18);
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+      });
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, { namespace: "ns" });
+        // Ids from before the clear are gone, and tracking is kept.
+        expect(
+          await tree.keyOf(ctx, { id: "id7", namespace: "ns" }),
+        ).toBeNull();
+        await tree.insert(ctx, { key: 1, id: "id7", namespace: "ns" });
+        expect(await tree.keyOf(ctx, { id: "id7", namespace: "ns" })).toBe(1);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should only track ids where enabled", async () => {
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 1, id: "a", namespace: "plain" });
+        await expect(
+          tree.keyOf(ctx, { id: "a", namespace: "plain" }),
+        ).rejects.toThrow(/doesn't track ids/);
+        await tree.clearAll(ctx, { trackIds: true });
+        // New namespaces follow the default namespace.
+        await tree.insert(ctx, { key: 2, id: "b", namespace: "new" });
+        expect(await tree.keyOf(ctx, { id: "b", namespace: "new" })).toBe(2);
+        await expect(
+          tree.bulkLoad(ctx, {
+            items: [{ key: 1, id: "c" }],
+            namespace: "new",
+          }),
+        ).rejects.toThrow(/tracks them/);
+        // Including new namespaces, which would track ids once created.
+        await expect(
+          tree.bulkLoad(ctx, {
+            items: [{ key: 1, id: "c" }],
+            namespace: "unseen",
+          }),
+        ).rejects.toThrow(/tracks them/);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+  });
+
+  describe("buffered writes", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should read pending writes and apply them later", async () => {
+      await t.run(async (ctx) => {
+        for (const key of [1, 3, 5]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        await tree.insert(ctx, { key: 2, id: "2", namespace: "ns" });
+        await tree.insert(ctx, { key: 6, id: "6", namespace: "ns" });
+        await tree.delete(ctx, { key: 3, id: "3", namespace: "ns" });
+        await tree.replace(
+          ctx,
+          { key: 5, id: "5", namespace: "ns" },
+          { key: 5, namespace: "ns", sumValue: 10 },
+        );
+        // Deleting a missing key is a no-op rather than an error.
+        await tree.delete(ctx, { key: 9, id: "9", namespace: "ns" });
+
+        const expected = [
+          { key: 1, id: "1", sumValue: 0 },
+          { key: 2, id: "2", sumValue: 0 },
+          { key: 5, id: "5", sumValue: 10 },
+          { key: 6, id: "6", sumValue: 0 },
+        ];
+        const items = [];
+        for await (const item of tree.iter(ctx, {
+          namespace: "ns",
+          pageSize: 1,
+        })) {
+          items.push(item);
+        }
+        expect(items).toEqual(expected);
+        const desc = [];
+        for await (const item of tree.iter(ctx, {
+          namespace: "ns",
+          order: "desc",
+          pageSize: 2,
+        })) {
+          desc.push(item);
+        }
+        expect(desc).toEqual([...expected].reverse());
+        expect(await tree.max(ctx, { namespace: "ns" })).toEqual(expected[3]);
+        expect(
+          await tree.min(ctx, {
+            namespace: "ns",
+            bounds: { lower: { key: 1, inclusive: false } },
+          }),
+        ).toEqual(expected[1]);
+        // Counts only see the tree until the writes are flushed.
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(3);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(4);
+        expect(await tree.sum(ctx, { namespace: "ns" })).toBe(10);
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+        await tree.setBuffered(ctx, false, { namespace: "ns" });
+        await expect(
+          tree.delete(ctx, { key: 9, id: "9", namespace: "ns" }),
+        ).rejects.toThrow(/not found/);
+      });
+    });
+
+    test("should read a bounded number of pending writes per page", async () => {
+      await t.run(async (ctx) => {
+        for (let key = 0; key < 10; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        for (let key = 10; key < 260; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        for (let key = 0; key < 5; key++) {
+          await tree.delete(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        const first = await tree.paginate(ctx, {
+          namespace: "ns",
+          pageSize: 500,
+        });
+        expect(first.isDone).toBe(false);
+        expect(first.page.length).toBeLessThan(255);
+        const expected = [];
+        for (let key = 5; key < 260; key++) {
+          expected.push(key);
+        }
+        for (const order of ["asc", "desc"] as const) {
+          const keys = [];
+          for await (const item of tree.iter(ctx, {
+            namespace: "ns",
+            order,
+            pageSize: 500,
+          })) {
+            keys.push(item.key);
+          }
+          expect(keys).toEqual(
+            order === "asc" ? expected : [...expected].reverse(),
+          );
+        }
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should find min and max past pending deletes", async () => {
+      await t.run(async (ctx) => {
+        for (let key = 1; key <= 5; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        await tree.delete(ctx, { key: 1, id: "1", namespace: "ns" });
+        await tree.delete(ctx, { key: 5, id: "5", namespace: "ns" });
+        expect(await tree.min(ctx, { namespace: "ns" })).toMatchObject({
+          key: 2,
+        });
+        expect(await tree.max(ctx, { namespace: "ns" })).toMatchObject({
+          key: 4,
+        });
+        for (let key = 2; key <= 4; key++) {
+          await tree.delete(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        expect(await tree.min(ctx, { namespace: "ns" })).toBeNull();
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should read pending writes within each of several bounds", async () => {
+      await t.run(async (ctx) => {
+        for (const key of [1, 2, 11, 12]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        for (const key of [3, 5, 13]) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.delete(ctx, { key: 11, id: "11", namespace: "ns" });
+        const bounds = [
+          {
+            lower: { key: 10, inclusive: true },
+            upper: { key: 20, inclusive: false },
+          },
+          {
+            lower: { key: 0, inclusive: true },
+            upper: { key: 4, inclusive: false },
+          },
+        ];
+        const keys = async (order: "asc" | "desc", pageSize: number) => {
+          const keys = [];
+          for await (const item of tree.iter(ctx, {
+            namespace: "ns",
+            bounds,
+            order,
+            pageSize,
+          })) {
+            keys.push(item.key);
+          }
+          return keys;
+        };
+        // 5 is pending, but outside both bounds.
+        const expected = [1, 2, 3, 12, 13];
+        for (const pageSize of [1, 2, 10]) {
+          expect(await keys("asc", pageSize)).toEqual(expected);
+          expect(await keys("desc", pageSize)).toEqual([...expected].reverse());
+        }
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should schedule a flush after the last one finishes", async () => {
+      const count = async () =>
+        await t.run(async (ctx) => await tree.count(ctx, { namespace: "ns" }));
+      await t.run(async (ctx) => {
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        for (let key = 0; key < 5; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+      });
+      // One flush applies every write so far.
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      expect(await count()).toBe(5);
+      await t.run(async (ctx) => {
+        await tree.insert(ctx, { key: 5, id: "5", namespace: "ns" });
+      });
+      expect(await count()).toBe(5);
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      expect(await count()).toBe(6);
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should apply pending writes when turned off", async () => {
+      await t.run(async (ctx) => {
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        await tree.insert(ctx, { key: 1, id: "1", namespace: "ns" });
+        await tree.setBuffered(ctx, false, { namespace: "ns" });
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(1);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should stay buffered until many pending writes are applied", async () => {
+      await t.run(async (ctx) => {
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        for (let key = 0; key < 150; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.setBuffered(ctx, false, { namespace: "ns" });
+        // One batch is applied right away, and later writes are still queued.
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(100);
+        await tree.delete(ctx, { key: 200, id: "200", namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(150);
+        await expect(
+          tree.delete(ctx, { key: 200, id: "200", namespace: "ns" }),
+        ).rejects.toThrow(/not found/);
+      });
+    });
+
+    test("should drop pending writes when cleared", async () => {
+      await t.run(async (ctx) => {
+        await tree.setBuffered(ctx, true, { namespace: "ns" });
+        await tree.insert(ctx, { key: 1, id: "1", namespace: "ns" });
+        await tree.clear(ctx, { namespace: "ns" });
+        await tree.insert(ctx, { key: 2, id: "2", namespace: "ns" });
+        const keys = [];
+        for await (const item of tree.iter(ctx, { namespace: "ns" })) {
+          keys.push(item.key);
+        }
+        expect(keys).toEqual([2]);
+        await tree.insert(ctx, { key: 3, id: "3", namespace: "other" });
+        await tree.setBuffered(ctx, true, { namespace: "other" });
+        await tree.insert(ctx, { key: 4, id: "4", namespace: "other" });
+        await tree.deleteNamespace(ctx, { namespace: "other" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(
+          await tree.paginate(ctx, { namespace: "ns", pageSize: 10 }),
+        ).toMatchObject({ page: [{ key: 2 }], isDone: true });
+        expect(await tree.count(ctx, { namespace: "other" })).toBe(0);
+      });
+    });
+  });
+
+  describe("clear", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should keep one deletion running when resumed right away", async () => {
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, { namespace: "ns", maxNodeSize: 4 });
+        for (let key = 0; key < 300; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.clear(ctx, { namespace: "ns" });
+        // Before the scheduled batch runs.
+        await tree.cancelClear(ctx, { namespace: "ns" });
+        await tree.resumeClear(ctx, { namespace: "ns" });
+      });
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "ns" })).toEqual({
+          deleted: 100,
+          cancelled: false,
+        });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should delete old nodes in batches", async () => {
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, { namespace: "ns", maxNodeSize: 4 });
+        for (let key = 0; key < 300; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.clear(ctx, { namespace: "ns" });
+        expect(await tree.clearStatus(ctx, { namespace: "ns" })).toEqual({
+          deleted: 0,
+          cancelled: false,
+        });
+      });
+      // Delete the first batch, then stop.
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "ns" })).toEqual({
+          deleted: 100,
+          cancelled: false,
+        });
+        await tree.cancelClear(ctx, { namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "ns" })).toEqual({
+          deleted: 100,
+          cancelled: true,
+        });
+        await tree.resumeClear(ctx, { namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "ns" })).toBeNull();
+        // Only the new tree's root is left.
+        const nodes = await ctx.runQuery(
+          components.aggregate.inspect.listTreeNodes,
+          {},
+        );
+        expect(nodes.length).toBe(1);
+      });
+    });
+  });
+
+  describe("namespace enumeration", () => {
+    test("should list namespaces in order, within bounds", async () => {
+      const byTeam = new DirectSearchTree<{
+        Key: number;
+        Id: string;
+        Namespace: [string, string];
+      }>(components.aggregate);
+      const list = async (
+        ctx: RunQueryCtx,
+        bounds?: NamespaceBounds<[string, string]>,
+      ) => {
+        const namespaces = [];
+        for await (const namespace of byTeam.iterNamespaces(ctx, 1, bounds)) {
+          namespaces.push(namespace);
+        }
+        return namespaces;
+      };
+      await t.run(async (ctx) => {
+        for (const namespace of [
+          ["org2", "t1"],
+          ["org1", "t2"],
+          ["org10", "t1"],
+          ["org1", "t1"],
+        ] as [string, string][]) {
+          await byTeam.insert(ctx, { key: 1, id: "a", namespace });
+        }
+        expect(await list(ctx)).toEqual([
+          ["org1", "t1"],
+          ["org1", "t2"],
+          ["org10", "t1"],
+          ["org2", "t1"],
+        ]);
+        expect(await list(ctx, { prefix: ["org1"] })).toEqual([
+          ["org1", "t1"],
+          ["org1", "t2"],
+        ]);
+        expect(await list(ctx, { prefix: ["org3"] })).toEqual([]);
+        expect(
+          await list(ctx, {
+            lower: { namespace: ["org1", "t2"], inclusive: false },
+            upper: { namespace: ["org2", "t1"], inclusive: true },
+          }),
+        ).toEqual([
+          ["org10", "t1"],
+          ["org2", "t1"],
+        ]);
+      });
+    });
+  });
+
+  describe("deleteNamespaces", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should delete namespaces and their nodes", async () => {
+      await t.run(async (ctx) => {
+        for (const namespace of ["a", "b", "c"]) {
+          for (let key = 0; key < 20; key++) {
+            await tree.insert(ctx, { key, id: `${key}`, namespace });
+          }
+        }
+        const first = await tree.deleteNamespaces(
+          ctx,
+          (namespace) => namespace !== "b",
+          { pageSize: 2 },
+        );
+        expect(first).toMatchObject({ deleted: 1, isDone: false });
+        expect(
+          await tree.deleteNamespaces(ctx, (namespace) => namespace !== "b", {
+            cursor: first.cursor,
+            pageSize: 2,
+          }),
+        ).toMatchObject({ deleted: 1, isDone: true });
+        const namespaces = [];
+        for await (const namespace of tree.iterNamespaces(ctx)) {
+          namespaces.push(namespace);
+        }
+        expect(namespaces).toEqual(["b"]);
+        expect(await tree.count(ctx, { namespace: "a" })).toBe(0);
+        expect(await tree.max(ctx, { namespace: "a" })).toBeNull();
+        expect(await tree.count(ctx, { namespace: "b" })).toBe(20);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "a" })).toBeNull();
+        await tree.deleteNamespace(ctx, { namespace: "b" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        const nodes = await ctx.runQuery(
+          components.aggregate.inspect.listTreeNodes,
+          {},
+        );
+        expect(nodes).toEqual([]);
+      });
+    });
+
+    test("should delete a namespace that tracks ids", async () => {
+      await t.run(async (ctx) => {
+        await tree.clear(ctx, { namespace: "ids", trackIds: true });
+        for (let key = 0; key < 150; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ids" });
+        }
+        await tree.deleteNamespace(ctx, { namespace: "ids" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.clearStatus(ctx, { namespace: "ids" })).toBeNull();
+        expect(
+          await ctx.runQuery(components.aggregate.inspect.listItemIds, {}),
+        ).toEqual([]);
+        // Writing creates the namespace again, with the default settings.
+        await tree.insert(ctx, { key: 1, id: "1", namespace: "ids" });
+        await expect(
+          tree.keyOf(ctx, { id: "1", namespace: "ids" }),
+        ).rejects.toThrow(/doesn't track ids/);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    test("should delete old trees' id rows but not the new tree's", async () => {
+      const rows = async () =>
+        await t.run(
+          async (ctx) =>
+            await ctx.runQuery(components.aggregate.inspect.listItemIds, {
+              take: 1000,
+            }),
+        );
+      await t.run(async (ctx) => {
+        for (const namespace of ["off", "again"]) {
+          await tree.clear(ctx, { namespace, trackIds: true });
+          for (let key = 0; key < 150; key++) {
+            await tree.insert(ctx, { key, id: `${key}`, namespace });
+          }
+        }
+        // Clearing without tracking ids leaves nothing to look rows up by.
+        await tree.clear(ctx, { namespace: "off", trackIds: false });
+        // Recreating the namespace before its old rows are gone.
+        await tree.deleteNamespace(ctx, { namespace: "again" });
+        await tree.clear(ctx, { namespace: "again", trackIds: true });
+        await tree.insert(ctx, { key: 5, id: "5", namespace: "again" });
+        expect(await tree.keyOf(ctx, { id: "5", namespace: "again" })).toBe(5);
+        expect(
+          await tree.keyOf(ctx, { id: "6", namespace: "again" }),
+        ).toBeNull();
+      });
+      expect(await rows()).toHaveLength(301);
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      expect(
+        (await rows()).map(({ namespace, id, key }) => ({
+          namespace,
+          id,
+          key,
+        })),
+      ).toEqual([{ namespace: "again", id: "5", key: expect.anything() }]);
+      await t.run(async (ctx) => {
+        expect(await tree.keyOf(ctx, { id: "5", namespace: "again" })).toBe(5);
+      });
+    });
+  });
+
+  describe("resize", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should resize while writes continue", async () => {
+      await t.run(async (ctx) => {
+        for (let key = 0; key < 250; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.resize(ctx, 4, { namespace: "ns" });
+        await expect(
+          tree.bulkLoad(ctx, { items: [], namespace: "ns" }),
+        ).rejects.toThrow(/resize/);
+      });
+      // Copy the first page.
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toEqual({
+          maxNodeSize: 4,
+          count: 100,
+          total: 250,
+        });
+        // Writes behind the copy, and one ahead of it.
+        await tree.delete(ctx, { key: 10, id: "10", namespace: "ns" });
+        await tree.insert(ctx, { key: 10.5, id: "10.5", namespace: "ns" });
+        await tree.replace(
+          ctx,
+          { key: 20, id: "20", namespace: "ns" },
+          { key: 20, namespace: "ns", sumValue: 5 },
+        );
+        await tree.delete(ctx, { key: 200, id: "200", namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toBeNull();
+        const trees = await ctx.runQuery(
+          components.aggregate.inspect.listTrees,
+          {},
+        );
+        expect(trees.map((tree) => tree.maxNodeSize)).toEqual([4]);
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(249);
+        expect(await tree.sum(ctx, { namespace: "ns" })).toBe(5);
+        const keys = [];
+        for await (const item of tree.iter(ctx, { namespace: "ns" })) {
+          keys.push(item.key);
+        }
+        const expected = [];
+        for (let key = 0; key < 250; key++) {
+          if (key !== 10 && key !== 200) {
+            expected.push(key);
+          }
+          if (key === 10) {
+            expected.push(10.5);
+          }
+        }
+        expect(keys).toEqual(expected);
+      });
+    });
+
+    test("should replay logged writes in batches before swapping", async () => {
+      const maxNodeSize = async () =>
+        (
+          await t.run(
+            async (ctx) =>
+              await ctx.runQuery(components.aggregate.inspect.listTrees, {}),
+          )
+        )[0].maxNodeSize;
+      const step = async () => {
+        vi.runOnlyPendingTimers();
+        await t.finishInProgressScheduledFunctions();
+      };
+      await t.run(async (ctx) => {
+        for (let key = 0; key < 150; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.resize(ctx, 4, { namespace: "ns" });
+      });
+      // Copy both pages.
+      await step();
+      await step();
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toEqual({
+          maxNodeSize: 4,
+          count: 150,
+          total: 150,
+        });
+        // Every key changes after it was copied.
+        for (let key = 0; key < 150; key++) {
+          await tree.replace(
+            ctx,
+            { key, id: `${key}`, namespace: "ns" },
+            { key, namespace: "ns", sumValue: 1 },
+          );
+        }
+      });
+      // Replay the first batch, which leaves the rest for later.
+      await step();
+      expect(await maxNodeSize()).toBe(16);
+      await t.run(async (ctx) => {
+        await tree.delete(ctx, { key: 0, id: "0", namespace: "ns" });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      expect(await maxNodeSize()).toBe(4);
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toBeNull();
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(149);
+        expect(await tree.sum(ctx, { namespace: "ns" })).toBe(149);
+      });
+    });
+
+    test("should stop a cancelled resize's steps when another starts", async () => {
+      await t.run(async (ctx) => {
+        for (let key = 0; key < 250; key++) {
+          await tree.insert(ctx, { key, id: `${key}`, namespace: "ns" });
+        }
+        await tree.resize(ctx, 4, { namespace: "ns" });
+        await tree.cancelResize(ctx, { namespace: "ns" });
+        await tree.resize(ctx, 8, { namespace: "ns" });
+      });
+      // Only the new resize's step copies a page.
+      vi.runOnlyPendingTimers();
+      await t.finishInProgressScheduledFunctions();
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toEqual({
+          maxNodeSize: 8,
+          count: 100,
+          total: 250,
+        });
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        expect(await tree.resizeStatus(ctx, { namespace: "ns" })).toBeNull();
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+        });
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(250);
+      });
+    });
+  });
+
+  describe("named indexes", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should keep trees with different index names independent", async () => {
+      const byScore = new DirectSearchTree<{
+        Key: number;
+        Id: string;
+        Namespace: string;
+      }>(components.aggregate, { index: "byScore" });
+      const byTime = new DirectSearchTree<{
+        Key: number;
+        Id: string;
+        Namespace: string;
+      }>(components.aggregate, { index: "byTime" });
+      await t.run(async (ctx) => {
+        await byTime.clear(ctx, { namespace: "ns", maxNodeSize: 4 });
+        for (let i = 0; i < 20; i++) {
+          await byTime.insert(ctx, { key: i, id: `id${i}`, namespace: "ns" });
+        }
+        // The same item can be in several indexes.
+        await byScore.insert(ctx, { key: 5, id: "id5", namespace: "ns" });
+        await byScore.insert(ctx, { key: 1, id: "a", namespace: "other" });
+        await ctx.runQuery(components.aggregate.btree.validate, {
+          namespace: "ns",
+          index: "byTime",
+        });
+        expect(await byTime.count(ctx, { namespace: "ns" })).toBe(20);
+        expect(await byScore.count(ctx, { namespace: "ns" })).toBe(1);
+        expect(await tree.count(ctx, { namespace: "ns" })).toBe(0);
+        await byScore.delete(ctx, { key: 5, id: "id5", namespace: "ns" });
+        expect(
+          await byTime.has(ctx, { key: 5, id: "id5", namespace: "ns" }),
+        ).toBe(true);
+        const { page } = await byScore.paginateNamespaces(ctx);
+        expect(page.sort()).toEqual(["ns", "other"]);
+      });
+      await t.run(async (ctx) => {
+        await byScore.clearAll(ctx);
+        expect(await byScore.count(ctx, { namespace: "other" })).toBe(0);
+        expect(await byTime.count(ctx, { namespace: "ns" })).toBe(20);
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await t.run(async (ctx) => {
+        const trees = await ctx.runQuery(
+          components.aggregate.inspect.listTrees,
+          {},
+        );
+        const byTimeTree = trees.find(
+          (tree) => tree.index === "byTime" && tree.namespace === "ns",
+        );
+        expect(byTimeTree?.maxNodeSize).toBe(4);
+      });
+    });
+  });
+});
+
+describe("trees written before aggregates", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("should compute missing aggregates and summands", async () => {
+    const t = convexTest(componentSchema, componentModules);
+    await t.mutation(api.public.init, { maxNodeSize: 4 });
+    for (let key = 0; key < 20; key++) {
+      await t.mutation(api.public.insert, { key, value: key, summand: key });
+    }
+    // Drop what older versions didn't store: every node's aggregate, and
+    // the summands of items below 10, which count as 0.
+    await t.run(async (ctx) => {
+      for (const node of await ctx.db.query("btreeNode").collect()) {
+        await ctx.db.replace(node._id, {
+          items: node.items.map(({ s, ...item }) =>
+            (item.k as number) < 10 ? item : { ...item, s },
+          ),
+          subtrees: node.subtrees,
+        });
+      }
+    });
+    const total = async () => await t.query(api.btree.aggregateBetween, {});
+    expect(await total()).toEqual({ count: 20, sum: 145 });
+    expect(
+      await t.query(api.btree.aggregateBetween, { k1: 4, k2: 15 }),
+    ).toEqual({ count: 10, sum: 60 });
+    expect(await t.query(api.btree.atOffset, { offset: 12 })).toMatchObject({
+      k: 12,
+    });
+    await t.mutation(api.public.insert, { key: 20, value: 20, summand: 20 });
+    await t.mutation(api.public.delete_, { key: 15 });
+    await t.mutation(api.public.replace, {
+      currentKey: 3,
+      newKey: 3,
+      value: 3,
+      summand: 3,
+    });
+    await t.query(api.btree.validate, {});
+    expect(await total()).toEqual({ count: 20, sum: 153 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+  });
+});
@@ -1,8 +1,14 @@
 import type {
   DocumentByName,
+  FunctionReference,
   GenericDataModel,
   GenericMutationCtx,
   GenericQueryCtx,
+  NamedTableInfo,
+  OrderedQuery,
+  PaginationOptions,
+  PaginationResult,
+  QueryInitializer,
   TableNamesInDataModel,
 } from "convex/server";
 import type { Key } from "../component/btree.js";
@@ -13,8 +19,25 @@ import {
   type Bound,
   type Bounds,
   boundsToPositions,
+  boundToPosition,
+  includingPosition,
+  type TuplePrefix,
 } from "./positions.js";
-import type { GenericId, Value as ConvexValue } from "convex/values";
+import {
+  type KeyNormalization,
+  normalizeBounds,
+  normalizeKey,
+  type StringNormalization,
+} from "./normalize.js";
+import {
+  ConvexError,
+  convexToJson,
+  type GenericId,
+  type JSONValue,
+  jsonToConvex,
+  type Value as ConvexValue,
+} from "convex/values";
+import { compareValues } from "../component/compare.js";
 import type { ComponentApi } from "../component/_generated/component.js";
 
 // e.g. `ctx` from a Convex query or mutation or action.
@@ -27,12 +50,64 @@ export type RunMutationCtx = {
   runMutation: GenericMutationCtx<GenericDataModel>["runMutation"];
 };
 
-export type Item<K extends Key, ID extends string> = {
+export type Item<K extends Key, ID extends ConvexValue> = {
   key: K;
   id: ID;
+  sumValue: number;
+  payload?: ConvexValue;
 };
 
-export type { Key, Bound };
+export type { Key, Bound, KeyNormalization, StringNormalization };
+export {
+  iterJoin,
+  type JoinItem,
+  type JoinSide,
+  type JoinType,
+  paginateJoin,
+} from "./join.js";
+
+/**
+ * Which namespaces to list: those between `lower` and `upper`, in the order
+ * of Convex values, or those tuples that start with `prefix`,
+ * e.g. `{ prefix: [orgId] }` for all of an org's `[orgId, teamId]` namespaces.
+ */
+export type NamespaceBounds<Namespace> =
+  | {
+      lower?: { namespace: Namespace; inclusive: boolean };
+      upper?: { namespace: Namespace; inclusive: boolean };
+    }
+  | { prefix: TuplePrefix<Extract<Namespace, unknown[]>> };
+
+/**
+ * A single write for {@link SearchTree.applyBatch}. The variants mirror the
+ * methods of {@link DirectSearchTree} with the same names.
+ */
+export type BatchOperation<K extends Key, ID extends ConvexValue, Namespace> =
+  | {
+      type: "insert";
+      key: K;
+      id: ID;
+      sumValue?: number;
+      payload?: ConvexValue;
+    }
+  | { type: "delete"; key: K; id: ID }
+  | {
+      type: "replace";
+      key: K;
+      id: ID;
+      newKey: K;
+      newNamespace?: Namespace;
+      sumValue?: number;
+      payload?: ConvexValue;
+    }
+  | {
+      type: "insertIfDoesNotExist";
+      key: K;
+      id: ID;
+      sumValue?: number;
+      payload?: ConvexValue;
+    }
+  | { type: "deleteIfExists"; key: K; id: ID };
 
 /**
  * Write data to be indexed, and read indexed data.
@@ -40,34 +115,250 @@ export type { Key, Bound };
  * The data structure is effectively a key-value store sorted by key, where the
  * value is an ID.
  * 1. The key can be any Convex value (number, string, array, etc.).
- * 2. The ID is a string which should be unique.
+ * 2. The ID should be unique. It's usually a document ID, but can be any
+ *    string or Convex value. Items with equal keys are ordered by ID.
+ * 3. Each item may carry a sumValue, which is added up by `sum`. It must be
+ *    finite: Infinity and NaN are rejected.
+ * 4. Each item may carry a small payload, returned alongside it by reads, to
+ *    save fetching the item's document.
  *
  * Once values have been added to the data structure, you can query for items
  * between a range of keys.
+ *
+ * One component can hold many independent trees, each under its own `index`
+ * name. Trees with different index names have their own namespaces and
+ * maxNodeSize, and `clearAll` only clears its own index.
  */
 export class SearchTree<
   K extends Key,
-  ID extends string,
+  ID extends ConvexValue,
   Namespace extends ConvexValue | undefined = undefined,
 > {
-  constructor(protected component: ComponentApi) { }
+  protected index: string | undefined;
+  protected normalize: KeyNormalization | undefined;
+
+  constructor(
+    protected component: ComponentApi,
+    options?: { index?: string; normalize?: KeyNormalization },
+  ) {
+    this.index = options?.index;
+    this.normalize = options?.normalize;
+  }
+
+  protected keyToPosition(key: K, id: ID): Position {
+    return keyToPosition(normalizeKey(key, this.normalize), id);
+  }
+
+  protected boundsToPositions(bounds?: Bounds<K, ID>) {
+    return boundsToPositions(normalizeBounds<K, ID>(bounds, this.normalize));
+  }
 
   /// Queries.
 
+  /**
+   * Counts items between the given bounds.
+   * Reads O(log n) nodes, regardless of how many items are counted.
+   */
+  async count(
+    ctx: RunQueryCtx,
+    ...opts: NamespacedOpts<{ bounds?: Bounds<K, ID> }, Namespace>
+  ): Promise<number> {
+    const { count } = await ctx.runQuery(
+      this.component.btree.aggregateBetween,
+      {
+        ...this.boundsToPositions(opts[0]?.bounds),
+        namespace: namespaceFromOpts(opts),
+        index: this.index,
+      },
+    );
+    return count;
+  }
+  /**
+   * Batch version of count() -- counts items for multiple bounds in a single
+   * component call.
+   */
+  async countBatch(
+    ctx: RunQueryCtx,
+    queries: NamespacedOptsBatch<{ bounds?: Bounds<K, ID> }, Namespace>,
+  ): Promise<number[]> {
+    const results = await ctx.runQuery(
+      this.component.btree.aggregateBetweenBatch,
+      {
+        queries: queries.map((query) => ({
+          ...this.boundsToPositions(query.bounds),
+          namespace: namespaceFromArg(query),
+          index: this.index,
+        })),
+      },
+    );
+    return results.map((result) => result.count);
+  }
+  /**
+   * Adds up the sumValues of items between the given bounds.
+   * Reads O(log n) nodes, regardless of how many items are summed.
+   */
+  async sum(
+    ctx: RunQueryCtx,
+    ...opts: NamespacedOpts<{ bounds?: Bounds<K, ID> }, Namespace>
+  ): Promise<number> {
+    const { sum } = await ctx.runQuery(this.component.btree.aggregateBetween, {
+      ...this.boundsToPositions(opts[0]?.bounds),
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+    return sum;
+  }
+  /**
+   * Batch version of sum() -- sums items for multiple bounds in a single
+   * component call.
+   */
+  async sumBatch(
+    ctx: RunQueryCtx,
+    queries: NamespacedOptsBatch<{ bounds?: Bounds<K, ID> }, Namespace>,
+  ): Promise<number[]> {
+    const results = await ctx.runQuery(
+      this.component.btree.aggregateBetweenBatch,
+      {
+        queries: queries.map((query) => ({
+          ...this.boundsToPositions(query.bounds),
+          namespace: namespaceFromArg(query),
+          index: this.index,
+        })),
+      },
+    );
+    return results.map((result) => result.sum);
+  }
+  /**
+   * Returns the item at the given offset (a.k.a. index or rank) in key order,
+   * within the bounds. Zero-indexed, so at(0) is the minimum item.
+   *
+   * A negative offset counts from the end, so at(-1) is the maximum item.
+   * Throws if the offset is out of range.
+   */
+  async at(
+    ctx: RunQueryCtx,
+    offset: number,
+    ...opts: NamespacedOpts<{ bounds?: Bounds<K, ID> }, Namespace>
+  ): Promise<Item<K, ID>> {
+    const item = await ctx.runQuery(this.component.btree.atOffset, {
+      offset,
+      ...this.boundsToPositions(opts[0]?.bounds),
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+    return btreeItemToAggregateItem<K, ID>(item);
+  }
+  /**
+   * Batch version of at() -- looks up items at multiple offsets in a single
+   * component call.
+   */
+  async atBatch(
+    ctx: RunQueryCtx,
+    queries: NamespacedOptsBatch<
+      { offset: number; bounds?: Bounds<K, ID> },
+      Namespace
+    >,
+  ): Promise<Item<K, ID>[]> {
+    const items = await ctx.runQuery(this.component.btree.atOffsetBatch, {
+      queries: queries.map((query) => ({
+        offset: query.offset,
+        ...this.boundsToPositions(query.bounds),
+        namespace: namespaceFromArg(query),
+        index: this.index,
+      })),
+    });
+    return items.map(btreeItemToAggregateItem<K, ID>);
+  }
+  /**
+   * Returns the offset (a.k.a. index or rank) of the given key within the
+   * bounds, i.e. the number of items that come before it.
+   *
+   * With `order: "asc"` (the default), that's the number of items with a
+   * smaller key. With `order: "desc"`, it's the number with a larger key.
+   * Pass `id` to rank a specific item among items with the same key;
+   * otherwise the rank is that of the first item with the key.
+   * The key doesn't need to be in the tree.
+   */
+  async indexOf(
+    ctx: RunQueryCtx,
+    key: K,
+    ...opts: NamespacedOpts<
+      { id?: ID; bounds?: Bounds<K, ID>; order?: "asc" | "desc" },
+      Namespace
+    >
+  ): Promise<number> {
+    const { k1, k2 } = this.boundsToPositions(opts[0]?.bounds);
+    const id = opts[0]?.id;
+    key = normalizeKey(key, this.normalize);
+    const range =
+      opts[0]?.order === "desc"
+        ? { k1: boundToPosition("upper", { key, id, inclusive: true }), k2 }
+        : { k1, k2: boundToPosition("lower", { key, id, inclusive: true }) };
+    const { count } = await ctx.runQuery(
+      this.component.btree.aggregateBetween,
+      { ...range, namespace: namespaceFromOpts(opts), index: this.index },
+    );
+    return count;
+  }
+  /**
+   * Looks up the item with exactly the given key and ID.
+   * Returns null if it isn't in the data structure.
+   */
+  async get(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ key: K; id: ID }, Namespace>,
+  ): Promise<Item<K, ID> | null> {
+    const item = await ctx.runQuery(this.component.btree.get, {
+      key: this.keyToPosition(args.key, args.id),
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+    return item && btreeItemToAggregateItem<K, ID>(item);
+  }
+  /**
+   * Whether the item with exactly the given key and ID is in the data
+   * structure.
+   */
+  async has(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ key: K; id: ID }, Namespace>,
+  ): Promise<boolean> {
+    return (await this.get(ctx, args)) !== null;
+  }
+  /**
+   * Looks up the current key of the item with the given ID.
+   * Returns null if it isn't in the data structure.
+   * Only for trees that track IDs; see `clear`.
+   */
+  async keyOf(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ id: ID }, Namespace>,
+  ): Promise<K | null> {
+    const item = await ctx.runQuery(this.component.btree.getById, {
+      id: args.id,
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+    return item && btreeItemToAggregateItem<K, ID>(item).key;
+  }
   /**
    * Gets the minimum item within the given bounds.
+   * On a buffered namespace, pages can come back empty where queued writes
+   * delete items, so this reads on until it finds one.
    */
   async min(
     ctx: RunQueryCtx,
     ...opts: NamespacedOpts<{ bounds?: Bounds<K, ID> }, Namespace>
   ): Promise<Item<K, ID> | null> {
-    const { page } = await this.paginate(ctx, {
+    for await (const item of this.iter(ctx, {
       namespace: namespaceFromOpts(opts),
       bounds: opts[0]?.bounds,
       order: "asc",
       pageSize: 1,
-    });
-    return page[0] ?? null;
+    })) {
+      return item;
+    }
+    return null;
   }
   /**
    * Gets the maximum item within the given bounds.
@@ -76,23 +367,118 @@ export class SearchTree<
     ctx: RunQueryCtx,
     ...opts: NamespacedOpts<{ bounds?: Bounds<K, ID> }, Namespace>
   ): Promise<Item<K, ID> | null> {
-    const { page } = await this.paginate(ctx, {
+    for await (const item of this.iter(ctx, {
       namespace: namespaceFromOpts(opts),
       bounds: opts[0]?.bounds,
       order: "desc",
       pageSize: 1,
+    })) {
+      return item;
+    }
+    return null;
+  }
+  /**
+   * Gets up to `before` items that come before the given key and ID, and up
+   * to `after` items that come after it, within the bounds. Both lists are in
+   * key order, so for an item in the tree, `[...before, item, ...after]` is
+   * the window around it. The item itself needn't be in the tree.
+   */
+  async around(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ key: K; id: ID }, Namespace>,
+    opts?: { before?: number; after?: number; bounds?: Bounds<K, ID> },
+  ): Promise<{ before: Item<K, ID>[]; after: Item<K, ID>[] }> {
+    const { before, after } = await ctx.runQuery(this.component.btree.around, {
+      key: this.keyToPosition(args.key, args.id),
+      before: opts?.before ?? 0,
+      after: opts?.after ?? 0,
+      ...this.boundsToPositions(opts?.bounds),
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+    return {
+      before: before.map(btreeItemToAggregateItem<K, ID>).reverse(),
+      after: after.map(btreeItemToAggregateItem<K, ID>),
+    };
+  }
+  /**
+   * Gets the item right after the given key and ID, within the bounds.
+   * Returns null if there is none.
+   */
+  async next(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ key: K; id: ID }, Namespace>,
+    opts?: { bounds?: Bounds<K, ID> },
+  ): Promise<Item<K, ID> | null> {
+    const { after } = await this.around(ctx, args, { ...opts, after: 1 });
+    return after[0] ?? null;
+  }
+  /**
+   * Gets the item right before the given key and ID, within the bounds.
+   * Returns null if there is none.
+   */
+  async prev(
+    ctx: RunQueryCtx,
+    args: NamespacedArgs<{ key: K; id: ID }, Namespace>,
+    opts?: { bounds?: Bounds<K, ID> },
+  ): Promise<Item<K, ID> | null> {
+    const { before } = await this.around(ctx, args, { ...opts, before: 1 });
+    return before[0] ?? null;
+  }
+  /**
+   * Gets the `k` items closest to `key`, nearest first, within the bounds.
+   * Keys must be numbers or bigints, or tuples ending in one, in which case
+   * distance is measured by the last element. Without bounds, a tuple key
+   * only matches keys that agree with it on every other element; bounds for
+   * tuple keys should do the same, e.g. a prefix range.
+   * Ties go to the smaller key.
+   */
+  async nearest(
+    ctx: RunQueryCtx,
+    key: K,
+    ...opts: NamespacedOpts<{ k?: number; bounds?: Bounds<K, ID> }, Namespace>
+  ): Promise<Item<K, ID>[]> {
+    const k = opts[0]?.k ?? 1;
+    const bounds =
+      opts[0]?.bounds ??
+      (Array.isArray(key)
+        ? ({ prefix: key.slice(0, -1) } as Bounds<K, ID>)
+        : undefined);
+    const normalized = normalizeKey(key, this.normalize);
+    distanceElement(normalized);
+    const around = await ctx.runQuery(this.component.btree.around, {
+      key: boundToPosition("lower", { key: normalized, inclusive: true }),
+      before: k,
+      after: k,
+      ...this.boundsToPositions(bounds),
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
     });
-    return page[0] ?? null;
+    const before = around.before.map(btreeItemToAggregateItem<K, ID>);
+    const after = around.after.map(btreeItemToAggregateItem<K, ID>);
+    const nearest: Item<K, ID>[] = [];
+    while (nearest.length < k && (before.length > 0 || after.length > 0)) {
+      const closerBefore =
+        after.length === 0 ||
+        (before.length > 0 &&
+          keyDistance(before[0].key, normalized) <=
+            keyDistance(after[0].key, normalized));
+      nearest.push((closerBefore ? before : after).shift()!);
+    }
+    return nearest;
   }
   /**
    * Get a page of items between the given bounds, with a cursor to paginate.
    * Use `iter` to iterate over all items within the bounds.
+   *
+   * `bounds` can be an array, to get items within any of them. Overlapping
+   * bounds are merged, so each item is returned once, in order.
    */
   async paginate(
     ctx: RunQueryCtx,
     ...opts: NamespacedOpts<
       {
-        bounds?: Bounds<K, ID>;
+        bounds?: Bounds<K, ID> | Bounds<K, ID>[];
         cursor?: string;
         order?: "asc" | "desc";
         pageSize?: number;
@@ -102,23 +488,129 @@ export class SearchTree<
   ): Promise<{ page: Item<K, ID>[]; cursor: string; isDone: boolean }> {
     const order = opts[0]?.order ?? "asc";
     const pageSize = opts[0]?.pageSize ?? 100;
+    const bounds = opts[0]?.bounds;
     const {
       page,
       cursor: newCursor,
       isDone,
-    } = await ctx.runQuery(this.component.btree.paginate, {
-      namespace: namespaceFromOpts(opts),
-      ...boundsToPositions(opts[0]?.bounds),
-      cursor: opts[0]?.cursor,
-      order,
-      limit: pageSize,
-    });
+    } = Array.isArray(bounds)
+      ? await ctx.runQuery(this.component.btree.paginateRanges, {
+          namespace: namespaceFromOpts(opts),
+          index: this.index,
+          ranges: bounds.map((b) => this.boundsToPositions(b)),
+          cursor: opts[0]?.cursor,
+          order,
+          limit: pageSize,
+        })
+      : await ctx.runQuery(this.component.btree.paginate, {
+          namespace: namespaceFromOpts(opts),
+          index: this.index,
+          ...this.boundsToPositions(bounds),
+          cursor: opts[0]?.cursor,
+          order,
+          limit: pageSize,
+        });
     return {
       page: page.map(btreeItemToAggregateItem<K, ID>),
       cursor: newCursor,
       isDone,
     };
   }
+  /**
+   * Like `paginate`, but takes and returns Convex's pagination types, so it
+   * can back a query used with `usePaginatedQuery`:
+   * ```ts
+   * export const list = query({
+   *   args: { paginationOpts: paginationOptsValidator },
+   *   handler: (ctx, { paginationOpts }) =>
+   *     tree.paginateConvex(ctx, paginationOpts),
+   * });
+   * ```
+   * With an `endCursor`, the page runs up to and including the item at that
+   * cursor however many items that is, so a reactive page keeps its
+   * boundaries as items are inserted or deleted. Pages that have grown to
+   * twice `numItems` recommend a split at their middle, and pages too long to
+   * read at once return what was read with a required split at its end. An
+   * empty `endCursor` is the end of the range, so that page is read like one
+   * without an `endCursor`. Otherwise, `numItems <= 0` gives an empty page.
+   */
+  async paginateConvex(
+    ctx: RunQueryCtx,
+    paginationOpts: PaginationOptions & { endCursor?: string | null },
+    ...opts: NamespacedOpts<
+      { bounds?: Bounds<K, ID>; order?: "asc" | "desc" },
+      Namespace
+    >
+  ): Promise<PaginationResult<Item<K, ID>>> {
+    const order = opts[0]?.order ?? "asc";
+    const { numItems, endCursor } = paginationOpts;
+    let { k1, k2 } = this.boundsToPositions(opts[0]?.bounds);
+    if (numItems <= 0 && !endCursor) {
+      // Positions are arrays, which sort after null and before objects, so
+      // without a bound, these are cursors before every item.
+      const start = order === "asc" ? (k1 ?? null) : (k2 ?? {});
+      return {
+        page: [],
+        isDone: false,
+        continueCursor:
+          paginationOpts.cursor ?? JSON.stringify(convexToJson(start)),
+      };
+    }
+    // An empty endCursor is the end of the tree, so it doesn't bound the page.
+    if (endCursor) {
+      const position = jsonToConvex(JSON.parse(endCursor)) as Position;
+      if (order === "asc") {
+        const end = includingPosition("upper", position);
+        k2 = k2 === undefined || compareValues(end, k2) < 0 ? end : k2;
+      } else {
+        const end = includingPosition("lower", position);
+        k1 = k1 === undefined || compareValues(end, k1) > 0 ? end : k1;
+      }
+    }
+    const page: { k: unknown; s?: number; p?: ConvexValue }[] = [];
+    let cursor = paginationOpts.cursor ?? undefined;
+    let isDone = false;
+    let reads = 0;
+    // With an endCursor, keep reading until the page reaches it.
+    do {
+      const result = await ctx.runQuery(this.component.btree.paginate, {
+        namespace: namespaceFromOpts(opts),
+        index: this.index,
+        k1,
+        k2,
+        cursor,
+        order,
+        limit: Math.max(numItems, 1),
+      });
+      page.push(...result.page);
+      cursor = result.cursor;
+      isDone = result.isDone;
+      reads++;
+    } while (!isDone && endCursor && reads < MAX_END_CURSOR_READS);
+    if (!isDone && endCursor) {
+      // The page is too long to read at once, so it has to be split where
+      // the reads stopped.
+      return {
+        page: page.map(btreeItemToAggregateItem<K, ID>),
+        isDone: false,
+        continueCursor: endCursor,
+        splitCursor: cursor,
+        pageStatus: "SplitRequired",
+      };
+    }
+    let splitCursor = null;
+    if (numItems > 0 && page.length >= 2 * numItems) {
+      const middle = page[Math.floor(page.length / 2) - 1];
+      splitCursor = JSON.stringify(convexToJson(middle.k as ConvexValue));
+    }
+    return {
+      page: page.map(btreeItemToAggregateItem<K, ID>),
+      isDone: endCursor ? false : isDone,
+      continueCursor: endCursor || cursor,
+      splitCursor,
+      pageStatus: splitCursor === null ? null : "SplitRecommended",
+    };
+  }
   /**
    * Example usage:
    * ```ts
@@ -126,11 +618,17 @@ export class SearchTree<
    *   console.log(item);
    * }
    * ```
+   * Pass a `cursor` from `paginate` to start where that page left off.
    */
   async *iter(
     ctx: RunQueryCtx,
     ...opts: NamespacedOpts<
-      { bounds?: Bounds<K, ID>; order?: "asc" | "desc"; pageSize?: number },
+      {
+        bounds?: Bounds<K, ID> | Bounds<K, ID>[];
+        cursor?: string;
+        order?: "asc" | "desc";
+        pageSize?: number;
+      },
       Namespace
     >
   ): AsyncGenerator<Item<K, ID>, void, undefined> {
@@ -139,7 +637,7 @@ export class SearchTree<
     const bounds = opts[0]?.bounds;
     const namespace = namespaceFromOpts(opts);
     let isDone = false;
-    let cursor: string | undefined = undefined;
+    let cursor: string | undefined = opts[0]?.cursor;
     while (!isDone) {
       const {
         page,
@@ -160,17 +658,43 @@ export class SearchTree<
     }
   }
 
+  /**
+   * Gets the IDs of all items stored under exactly the given key, in ID order.
+   */
+  async getIdsForKey(
+    ctx: RunQueryCtx,
+    key: K,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<ID[]> {
+    const ids: ID[] = [];
+    for await (const item of this.iter(ctx, {
+      namespace: namespaceFromOpts(opts),
+      bounds: {
+        lower: { key, inclusive: true },
+        upper: { key, inclusive: true },
+      },
+    })) {
+      ids.push(item.id);
+    }
+    return ids;
+  }
+
   /** Write operations. See {@link DirectSearchTree} for docstrings. */
   async _insert(
     ctx: RunMutationCtx,
     namespace: Namespace,
     key: K,
     id: ID,
+    summand?: number,
+    payload?: ConvexValue,
   ): Promise<void> {
     await ctx.runMutation(this.component.public.insert, {
-      key: keyToPosition(key, id),
+      key: this.keyToPosition(key, id),
       value: id,
+      summand,
+      payload,
       namespace,
+      index: this.index,
     });
   }
   async _delete(
@@ -180,8 +704,9 @@ export class SearchTree<
     id: ID,
   ): Promise<void> {
     await ctx.runMutation(this.component.public.delete_, {
-      key: keyToPosition(key, id),
+      key: this.keyToPosition(key, id),
       namespace,
+      index: this.index,
     });
   }
   async _replace(
@@ -191,13 +716,18 @@ export class SearchTree<
     newNamespace: Namespace,
     newKey: K,
     id: ID,
+    summand?: number,
+    payload?: ConvexValue,
   ): Promise<void> {
     await ctx.runMutation(this.component.public.replace, {
-      currentKey: keyToPosition(currentKey, id),
-      newKey: keyToPosition(newKey, id),
+      currentKey: this.keyToPosition(currentKey, id),
+      newKey: this.keyToPosition(newKey, id),
       value: id,
+      summand,
+      payload,
       namespace: currentNamespace,
       newNamespace,
+      index: this.index,
     });
   }
   async _insertIfDoesNotExist(
@@ -205,6 +735,8 @@ export class SearchTree<
     namespace: Namespace,
     key: K,
     id: ID,
+    summand?: number,
+    payload?: ConvexValue,
   ): Promise<void> {
     await this._replaceOrInsert(
       ctx,
@@ -213,6 +745,8 @@ export class SearchTree<
       namespace,
       key,
       id,
+      summand,
+      payload,
     );
   }
   async _deleteIfExists(
@@ -222,8 +756,9 @@ export class SearchTree<
     id: ID,
   ): Promise<void> {
     await ctx.runMutation(this.component.public.deleteIfExists, {
-      key: keyToPosition(key, id),
+      key: this.keyToPosition(key, id),
       namespace,
+      index: this.index,
     });
   }
   async _replaceOrInsert(
@@ -233,13 +768,45 @@ export class SearchTree<
     newNamespace: Namespace,
     newKey: K,
     id: ID,
+    summand?: number,
+    payload?: ConvexValue,
   ): Promise<void> {
     await ctx.runMutation(this.component.public.replaceOrInsert, {
-      currentKey: keyToPosition(currentKey, id),
-      newKey: keyToPosition(newKey, id),
+      currentKey: this.keyToPosition(currentKey, id),
+      newKey: this.keyToPosition(newKey, id),
       value: id,
+      summand,
+      payload,
       namespace: currentNamespace,
       newNamespace,
+      index: this.index,
+    });
+  }
+
+  /**
+   * Applies a list of writes, in order, in a single component call.
+   * Each operation can target its own namespace, and `replace` can move an
+   * item to `newNamespace` (defaulting to the operation's namespace).
+   *
+   * The batch is atomic: if any operation throws (e.g. `insert` of an
+   * existing item or `delete` of a missing one), none of them are applied.
+   */
+  async applyBatch(
+    ctx: RunMutationCtx,
+    operations: NamespacedOptsBatch<
+      BatchOperation<K, ID, Namespace>,
+      Namespace
+    >,
+  ): Promise<void> {
+    await ctx.runMutation(this.component.public.applyBatch, {
+      operations: operations.map((operation) => ({
+        ...batchOperationToComponent(
+          operation as BatchOperation<K, ID, Namespace>,
+          namespaceFromArg<Namespace>(operation as object),
+          this.normalize,
+        ),
+        index: this.index,
+      })),
     });
   }
 
@@ -252,24 +819,246 @@ export class SearchTree<
    *   maxNodeSize is how you tune the data structure's width and depth.
    *   Larger values can reduce write contention but increase read latency.
    *   Default is 16.
+   *
+   * Likewise for trackIds, which records where each item is so it can be
+   * found by ID alone, with `keyOf`, `deleteById` and `updateKeyById`.
+   *   Each write also updates the record, and bulk loads aren't supported.
+   *   New namespaces track IDs if the default namespace does.
+   *   Default is false.
+   *
+   * The old items are deleted in batches in the background. Use
+   * `clearStatus` to see when they're gone. Any bulk load or resize in
+   * progress is cancelled.
    */
   async clear(
     ctx: RunMutationCtx,
     ...opts: NamespacedOpts<
-      { maxNodeSize?: number },
+      { maxNodeSize?: number; trackIds?: boolean },
       Namespace
     >
   ): Promise<void> {
     await ctx.runMutation(this.component.public.clear, {
       maxNodeSize: opts[0]?.maxNodeSize,
+      trackIds: opts[0]?.trackIds,
       namespace: namespaceFromOpts(opts),
+      index: this.index,
     });
   }
 
+  /**
+   * Reports the progress of deleting the namespace's old items after `clear`
+   * (or a bulk load or resize), or null once they've all been deleted.
+   */
+  async clearStatus(
+    ctx: RunQueryCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<{ deleted: number; cancelled: boolean } | null> {
+    return await ctx.runQuery(this.component.deletion.status, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Stops deleting the namespace's old items in the background, leaving the
+   * rest in storage until `resumeClear` is called. The namespace's current
+   * items are unaffected.
+   */
+  async cancelClear(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.deletion.cancel, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Resumes deleting the namespace's old items after `cancelClear`.
+   */
+  async resumeClear(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.deletion.resume, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Turns buffered writes on or off for the namespace. Writes to a buffered
+   * namespace are queued and applied to the tree in batches in the
+   * background, so frequent writers don't conflict with each other.
+   *
+   * Until they're applied, `paginate`, `paginateConvex`, `iter`, `min`,
+   * `max` and `getIdsForKey` include queued writes. Every other read only
+   * sees them once they're applied: `count`, `sum`, `at`, `indexOf`, their
+   * batch versions, `around`, `next`, `prev`, `nearest`, `get` and `has`.
+   *
+   * Queued writes aren't checked against the tree, so the write methods
+   * don't throw for a missing or existing item: `insert` of an existing key
+   * and id replaces its item, `delete` of a missing one does nothing, and
+   * `replace` of a missing one inserts the new item. The `IfExists` and
+   * `IfDoesNotExist` variants behave the same way.
+   * Buffering can't be combined with trackIds or bulk loads. Turning it off
+   * applies a batch of queued writes right away. If there are more, writes
+   * stay queued until the rest have been applied in the background.
+   */
+  async setBuffered(
+    ctx: RunMutationCtx,
+    buffered: boolean,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.buffer.setBuffered, {
+      buffered,
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Appends a page of items to a bulk load of the namespace, starting one if
+   * none is in progress. A bulk load builds the tree bottom-up from sorted
+   * items, which is much cheaper than inserting them one at a time.
+   *
+   * Items must be sorted by key, then by id, both within the page and after
+   * any previously appended pages. Call this once per page, from as many
+   * mutations as needed, then call `finishBulkLoad`.
+   */
+  async bulkLoad(
+    ctx: RunMutationCtx,
+    args: NamespacedArgs<
+      {
+        items: {
+          key: K;
+          id: ID;
+          sumValue?: number;
+          payload?: ConvexValue;
+        }[];
+      },
+      Namespace
+    >,
+  ): Promise<void> {
+    await ctx.runMutation(this.component.bulkLoad.append, {
+      items: args.items.map(({ key, id, sumValue, payload }) => ({
+        key: this.keyToPosition(key, id),
+        value: id,
+        summand: sumValue,
+        payload,
+      })),
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Completes the namespace's bulk load, replacing all of the namespace's
+   * items with the loaded ones. Writes made to the namespace while the load
+   * was in progress are discarded.
+   */
+  async finishBulkLoad(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.bulkLoad.finish, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Abandons the namespace's bulk load, if any, leaving its items unchanged.
+   */
+  async cancelBulkLoad(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.bulkLoad.cancel, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Reports the progress of the namespace's bulk load, or null if there is
+   * none. To resume an interrupted load, append items after `last`.
+   */
+  async bulkLoadStatus(
+    ctx: RunQueryCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<{ count: number; last: Item<K, ID> | null } | null> {
+    const status = await ctx.runQuery(this.component.bulkLoad.status, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+    if (status === null) {
+      return null;
+    }
+    return {
+      count: status.count,
+      last: status.last && btreeItemToAggregateItem<K, ID>(status.last),
+    };
+  }
+
+  /**
+   * Rebuilds the namespace's tree with a new maxNodeSize, without clearing
+   * it. Items are copied to the new tree in the background, while reads and
+   * writes carry on against the current one, and the new tree replaces it
+   * once the copy catches up. Larger nodes make reads shallower, while
+   * smaller nodes mean fewer writes conflict.
+   *
+   * A tree can't be resized during a bulk load. `clear` cancels a resize.
+   */
+  async resize(
+    ctx: RunMutationCtx,
+    maxNodeSize: number,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.resize.start, {
+      maxNodeSize,
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Abandons the namespace's resize, if any, keeping the current tree.
+   */
+  async cancelResize(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.resize.cancel, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Reports the progress of the namespace's resize, or null if there is
+   * none: `count` of the tree's `total` items have been copied so far.
+   */
+  async resizeStatus(
+    ctx: RunQueryCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<{ maxNodeSize: number; count: number; total: number } | null> {
+    return await ctx.runQuery(this.component.resize.status, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Gets a page of namespaces, in the order of Convex values, optionally
+   * limited to `bounds`.
+   */
   async paginateNamespaces(
     ctx: RunQueryCtx,
     cursor?: string,
     pageSize: number = 100,
+    bounds?: NamespaceBounds<Namespace>,
   ): Promise<{ page: Namespace[]; cursor: string; isDone: boolean }> {
     const {
       page,
@@ -278,6 +1067,8 @@ export class SearchTree<
     } = await ctx.runQuery(this.component.btree.paginateNamespaces, {
       cursor,
       limit: pageSize,
+      index: this.index,
+      ...bounds,
     });
     return {
       page: page as Namespace[],
@@ -289,6 +1080,7 @@ export class SearchTree<
   async *iterNamespaces(
     ctx: RunQueryCtx,
     pageSize: number = 100,
+    bounds?: NamespaceBounds<Namespace>,
   ): AsyncGenerator<Namespace, void, undefined> {
     let isDone = false;
     let cursor: string | undefined = undefined;
@@ -297,7 +1089,7 @@ export class SearchTree<
         page,
         cursor: newCursor,
         isDone: newIsDone,
-      } = await this.paginateNamespaces(ctx, cursor, pageSize);
+      } = await this.paginateNamespaces(ctx, cursor, pageSize, bounds);
       for (const item of page) {
         yield item ?? (undefined as Namespace);
       }
@@ -308,7 +1100,7 @@ export class SearchTree<
 
   async clearAll(
     ctx: RunMutationCtx & RunQueryCtx,
-    opts?: { maxNodeSize?: number },
+    opts?: { maxNodeSize?: number; trackIds?: boolean },
   ): Promise<void> {
     for await (const namespace of this.iterNamespaces(ctx)) {
       await this.clear(ctx, { ...opts, namespace });
@@ -317,11 +1109,59 @@ export class SearchTree<
     // at namespace=undefined. This is where the default settings are stored.
     await this.clear(ctx, { ...opts, namespace: undefined as Namespace });
   }
+
+  /**
+   * Deletes the namespace entirely, so it no longer shows up in
+   * `paginateNamespaces` or `iterNamespaces`, or gets recreated by
+   * `clearAll`. Its items are deleted in the background, as with `clear`.
+   * Reads treat a missing namespace as empty, and writing to it creates it
+   * again.
+   */
+  async deleteNamespace(
+    ctx: RunMutationCtx,
+    ...opts: NamespacedOpts<object, Namespace>
+  ): Promise<void> {
+    await ctx.runMutation(this.component.public.deleteNamespace, {
+      namespace: namespaceFromOpts(opts),
+      index: this.index,
+    });
+  }
+
+  /**
+   * Deletes the namespaces for which `filter` returns true, one page of
+   * namespaces at a time. Call repeatedly with the returned cursor until
+   * `isDone`, preferably each page in its own mutation.
+   * See `deleteNamespace`.
+   */
+  async deleteNamespaces(
+    ctx: RunMutationCtx & RunQueryCtx,
+    filter: (namespace: Namespace) => boolean,
+    opts?: {
+      cursor?: string;
+      pageSize?: number;
+      bounds?: NamespaceBounds<Namespace>;
+    },
+  ): Promise<{ deleted: number; cursor: string; isDone: boolean }> {
+    const { page, cursor, isDone } = await this.paginateNamespaces(
+      ctx,
+      opts?.cursor,
+      opts?.pageSize,
+      opts?.bounds,
+    );
+    let deleted = 0;
+    for (const namespace of page) {
+      if (filter(namespace)) {
+        await this.deleteNamespace(ctx, { namespace });
+        deleted++;
+      }
+    }
+    return { deleted, cursor, isDone };
+  }
 }
 
 export type DirectSearchTreeType<
   K extends Key,
-  ID extends string,
+  ID extends ConvexValue,
   Namespace extends ConvexValue | undefined = undefined,
 > = {
   Key: K;
@@ -330,7 +1170,7 @@ export type DirectSearchTreeType<
 };
 type AnyDirectSearchTreeType = DirectSearchTreeType<
   Key,
-  string,
+  ConvexValue,
   ConvexValue | undefined
 >;
 type DirectSearchTreeNamespace<T extends AnyDirectSearchTreeType> =
@@ -352,11 +1192,19 @@ export class DirectSearchTree<
    * If the tree does not exist yet, it will be initialized with the default
    * maxNodeSize.
    * If the [key, id] pair already exists, this will throw.
+   * The optional sumValue is what the item contributes to `sum`.
+   * The optional payload is returned with the item by reads. Its JSON
+   * encoding must be at most 1024 bytes.
    */
   async insert(
     ctx: RunMutationCtx,
     args: NamespacedArgs<
-      { key: T["Key"]; id: T["Id"] },
+      {
+        key: T["Key"];
+        id: T["Id"];
+        sumValue?: number;
+        payload?: ConvexValue;
+      },
       DirectSearchTreeNamespace<T>
     >,
   ): Promise<void> {
@@ -365,6 +1213,8 @@ export class DirectSearchTree<
       namespaceFromArg(args),
       args.key,
       args.id,
+      args.sumValue,
+      args.payload,
     );
   }
   /**
@@ -384,6 +1234,8 @@ export class DirectSearchTree<
    * Update an existing item in the data structure.
    * This is effectively a delete followed by an insert, but it's performed
    * atomically so it's impossible to view the data structure with the key missing.
+   * If the key and namespace are unchanged, the item is updated in place, so
+   * changing only its sumValue or payload doesn't restructure the tree.
    */
   async replace(
     ctx: RunMutationCtx,
@@ -392,7 +1244,7 @@ export class DirectSearchTree<
       DirectSearchTreeNamespace<T>
     >,
     newItem: NamespacedArgs<
-      { key: T["Key"] },
+      { key: T["Key"]; sumValue?: number; payload?: ConvexValue },
       DirectSearchTreeNamespace<T>
     >,
   ): Promise<void> {
@@ -403,6 +1255,8 @@ export class DirectSearchTree<
       namespaceFromArg(newItem),
       newItem.key,
       currentItem.id,
+      newItem.sumValue,
+      newItem.payload,
     );
   }
   /**
@@ -410,13 +1264,19 @@ export class DirectSearchTree<
    * This can be useful for live backfills:
    * 1. Update live writes to use these methods to write into the new SearchTree.
    * 2. Run a background backfill, paginating over existing data, calling `insertIfDoesNotExist` on each item.
+   *    For a TableSearchTree, `TableSearchTree.backfill` does this step.
    * 3. Once the backfill is complete, use `insert`, `delete`, and `replace` for live writes.
    * 4. Begin using the SearchTree read methods.
    */
   async insertIfDoesNotExist(
     ctx: RunMutationCtx,
     args: NamespacedArgs<
-      { key: T["Key"]; id: T["Id"] },
+      {
+        key: T["Key"];
+        id: T["Id"];
+        sumValue?: number;
+        payload?: ConvexValue;
+      },
       DirectSearchTreeNamespace<T>
     >,
   ): Promise<void> {
@@ -425,6 +1285,8 @@ export class DirectSearchTree<
       namespaceFromArg(args),
       args.key,
       args.id,
+      args.sumValue,
+      args.payload,
     );
   }
   async deleteIfExists(
@@ -443,7 +1305,7 @@ export class DirectSearchTree<
       DirectSearchTreeNamespace<T>
     >,
     newItem: NamespacedArgs<
-      { key: T["Key"] },
+      { key: T["Key"]; sumValue?: number; payload?: ConvexValue },
       DirectSearchTreeNamespace<T>
     >,
   ): Promise<void> {
@@ -454,8 +1316,44 @@ export class DirectSearchTree<
       namespaceFromArg(newItem),
       newItem.key,
       currentItem.id,
+      newItem.sumValue,
+      newItem.payload,
     );
   }
+  /**
+   * Delete the item with the given ID, whatever its key.
+   * Throws if the ID does not exist.
+   * Only for trees that track IDs; see `clear`.
+   */
+  async deleteById(
+    ctx: RunMutationCtx,
+    args: NamespacedArgs<{ id: T["Id"] }, DirectSearchTreeNamespace<T>>,
+  ): Promise<void> {
+    await ctx.runMutation(this.component.public.deleteById, {
+      id: args.id,
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+  }
+  /**
+   * Move the item with the given ID to a new key, whatever its current key.
+   * Its sumValue and payload are kept. Throws if the ID does not exist.
+   * Only for trees that track IDs; see `clear`.
+   */
+  async updateKeyById(
+    ctx: RunMutationCtx,
+    args: NamespacedArgs<
+      { id: T["Id"]; newKey: T["Key"] },
+      DirectSearchTreeNamespace<T>
+    >,
+  ): Promise<void> {
+    await ctx.runMutation(this.component.public.updateKeyById, {
+      id: args.id,
+      newKey: this.keyToPosition(args.newKey, args.id),
+      namespace: namespaceFromArg(args),
+      index: this.index,
+    });
+  }
 }
 
 export type TableSearchTreeType<
@@ -491,6 +1389,44 @@ type TableSearchTreeTrigger<Ctx, T extends AnyTableSearchTreeType> = Trigger<
   T["TableName"]
 >;
 
+/**
+ * An item that is, or should be, in a TableSearchTree.
+ */
+export type ReconcileEntry<K extends Key, ID extends ConvexValue, Namespace> = {
+  key: K;
+  id: ID;
+  namespace: Namespace;
+};
+
+/**
+ * One page of differences found by {@link TableSearchTree.reconcile}.
+ * - `missing`: documents whose item isn't in the tree.
+ * - `extra`: items whose document no longer exists.
+ * - `mismatched`: items whose document now has a different key or namespace.
+ *   The document's current item is reported separately, under `missing`.
+ */
+export type ReconcileResult<K extends Key, ID extends ConvexValue, Namespace> = {
+  missing: ReconcileEntry<K, ID, Namespace>[];
+  extra: ReconcileEntry<K, ID, Namespace>[];
+  mismatched: (ReconcileEntry<K, ID, Namespace> & {
+    expectedKey: K;
+    expectedNamespace: Namespace;
+  })[];
+  cursor: string;
+  isDone: boolean;
+};
+
+// The table is read a page at a time, and the tree alongside it up to the
+// page's last document, one namespace at a time. `namespaces` finds the
+// namespace being read, and `after` is the last item read from it.
+type ReconcileCursor = {
+  table: string | null;
+  tableDone: boolean;
+  namespaces?: string;
+  after?: { key: JSONValue; id: JSONValue };
+  treeDone: boolean;
+};
+
 export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTree<
   T["Key"],
   GenericId<T["TableName"]>,
@@ -500,6 +1436,10 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
     component: ComponentApi,
     private options: {
       sortKey: (d: TableSearchTreeDocument<T>) => T["Key"];
+      sumValue?: (d: TableSearchTreeDocument<T>) => number;
+      payload?: (d: TableSearchTreeDocument<T>) => ConvexValue;
+      index?: string;
+      normalize?: KeyNormalization;
     } & (undefined extends TableSearchTreeNamespace<T>
       ? {
         namespace?: (
@@ -512,7 +1452,7 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
         ) => TableSearchTreeNamespace<T>;
       }),
   ) {
-    super(component);
+    super(component, { index: options.index, normalize: options.normalize });
   }
 
   async insert(
@@ -524,6 +1464,8 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
       this.options.namespace?.(doc),
       this.options.sortKey(doc),
       doc._id as TableSearchTreeId<T>,
+      this.options.sumValue?.(doc),
+      this.options.payload?.(doc),
     );
   }
   async delete(
@@ -549,6 +1491,8 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
       this.options.namespace?.(newDoc),
       this.options.sortKey(newDoc),
       newDoc._id as TableSearchTreeId<T>,
+      this.options.sumValue?.(newDoc),
+      this.options.payload?.(newDoc),
     );
   }
   async insertIfDoesNotExist(
@@ -560,6 +1504,8 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
       this.options.namespace?.(doc),
       this.options.sortKey(doc),
       doc._id as TableSearchTreeId<T>,
+      this.options.sumValue?.(doc),
+      this.options.payload?.(doc),
     );
   }
   async deleteIfExists(
@@ -585,6 +1531,8 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
       this.options.namespace?.(newDoc),
       this.options.sortKey(newDoc),
       newDoc._id as TableSearchTreeId<T>,
+      this.options.sumValue?.(newDoc),
+      this.options.payload?.(newDoc),
     );
   }
 
@@ -614,6 +1562,346 @@ export class TableSearchTree<T extends AnyTableSearchTreeType> extends SearchTre
       }
     };
   }
+
+  /**
+   * Backfills one page of `table`'s existing documents into the tree with
+   * `insertIfDoesNotExist`, then schedules `mutation` to do the next page.
+   * Progress is recorded in the component with each page, so an interrupted
+   * backfill picks up where it left off. Once done, calling it again is a
+   * no-op until `resetBackfill`.
+   *
+   * `mutation` should be an internal mutation, taking no arguments, that
+   * calls this method:
+   * ```ts
+   * export const backfillScores = internalMutation({
+   *   args: {},
+   *   handler: async (ctx) => {
+   *     await aggregate.backfill(ctx, {
+   *       table: "scores",
+   *       mutation: internal.scores.backfillScores,
+   *     });
+   *   },
+   * });
+   * ```
+   * Run it once to start. Live writes should use `idempotentTrigger()` until
+   * `backfillStatus` reports the backfill is done.
+   */
+  async backfill(
+    ctx: GenericMutationCtx<T["DataModel"]>,
+    args: {
+      table: T["TableName"];
+      mutation: FunctionReference<"mutation", "internal" | "public">;
+      batchSize?: number;
+    },
+  ): Promise<void> {
+    const status = await ctx.runQuery(this.component.backfill.status, {
+      table: args.table,
+      index: this.index,
+    });
+    if (status?.isDone) {
+      return;
+    }
+    const cursor = status?.cursor ?? null;
+    const { page, continueCursor, isDone } = await ctx.db
+      .query(args.table)
+      .paginate({ cursor, numItems: args.batchSize ?? 100 });
+    await this.applyBatch(
+      ctx,
+      page.map((doc) => ({
+        type: "insertIfDoesNotExist",
+        key: this.options.sortKey(doc),
+        id: doc._id as TableSearchTreeId<T>,
+        sumValue: this.options.sumValue?.(doc),
+        payload: this.options.payload?.(doc),
+        namespace: this.options.namespace?.(doc),
+      })) as NamespacedOptsBatch<
+        BatchOperation<
+          T["Key"],
+          TableSearchTreeId<T>,
+          TableSearchTreeNamespace<T>
+        >,
+        TableSearchTreeNamespace<T>
+      >,
+    );
+    await ctx.runMutation(this.component.backfill.recordProgress, {
+      table: args.table,
+      index: this.index,
+      cursor,
+      continueCursor,
+      isDone,
+      processed: page.length,
+    });
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, args.mutation, {});
+    }
+  }
+
+  /**
+   * Reports the progress of backfilling from `table`, or null if no backfill
+   * has started. Once `isDone`, it's safe to switch from `idempotentTrigger()`
+   * to `trigger()`.
+   */
+  async backfillStatus(
+    ctx: RunQueryCtx,
+    table: T["TableName"],
+  ): Promise<{ isDone: boolean; processed: number } | null> {
+    const status = await ctx.runQuery(this.component.backfill.status, {
+      table,
+      index: this.index,
+    });
+    if (status === null) {
+      return null;
+    }
+    return { isDone: status.isDone, processed: status.processed };
+  }
+
+  /**
+   * Forgets the progress of backfilling from `table`, so the next `backfill`
+   * starts again from the beginning.
+   */
+  async resetBackfill(
+    ctx: RunMutationCtx,
+    table: T["TableName"],
+  ): Promise<void> {
+    await ctx.runMutation(this.component.backfill.reset, {
+      table,
+      index: this.index,
+    });
+  }
+
+  /**
+   * Compares one page of `table` against the tree, reporting documents
+   * without items and items without a matching document. Call repeatedly
+   * with the returned cursor until `isDone`.
+   *
+   * Both sides are read in the tree's order: by namespace, then by key.
+   * `order` should read the table in that order, usually with an index,
+   * e.g. `(q) => q.withIndex("by_album_score")`, so each page of documents is
+   * matched against the items between it and the previous page. Anything
+   * unmatched, e.g. because the table isn't in order, is looked up directly
+   * before being reported.
+   *
+   * With `fix`, which requires a mutation ctx, extra and mismatched items are
+   * deleted and missing items are inserted as they're found.
+   */
+  async reconcile(
+    ctx: GenericQueryCtx<T["DataModel"]> & Partial<RunMutationCtx>,
+    args: {
+      table: T["TableName"];
+      order?: (
+        query: QueryInitializer<NamedTableInfo<T["DataModel"], T["TableName"]>>,
+      ) => OrderedQuery<NamedTableInfo<T["DataModel"], T["TableName"]>>;
+      cursor?: string;
+      pageSize?: number;
+      fix?: boolean;
+    },
+  ): Promise<
+    ReconcileResult<T["Key"], TableSearchTreeId<T>, TableSearchTreeNamespace<T>>
+  > {
+    if (args.fix && ctx.runMutation === undefined) {
+      throw new Error("reconcile can only fix the tree from a mutation");
+    }
+    const mutationCtx = ctx as GenericQueryCtx<T["DataModel"]> & RunMutationCtx;
+    const pageSize = args.pageSize ?? 100;
+    const state: ReconcileCursor = args.cursor
+      ? JSON.parse(args.cursor)
+      : { table: null, tableDone: false, treeDone: false };
+    const result: ReconcileResult<
+      T["Key"],
+      TableSearchTreeId<T>,
+      TableSearchTreeNamespace<T>
+    > = { missing: [], extra: [], mismatched: [], cursor: "", isDone: true };
+
+    const docs: ReconcileEntry<
+      T["Key"],
+      TableSearchTreeId<T>,
+      TableSearchTreeNamespace<T>
+    >[] = [];
+    const next = { ...state };
+    if (!state.tableDone) {
+      const query = ctx.db.query(args.table);
+      const { page, continueCursor, isDone } = await (
+        args.order?.(query) ?? query
+      ).paginate({ cursor: state.table, numItems: pageSize });
+      for (const doc of page) {
+        docs.push(this.expectedEntry(doc));
+      }
+      next.table = continueCursor;
+      next.tableDone = isDone;
+    }
+    // Until the table is done, only read items up to its last document.
+    let items: typeof docs = [];
+    if (!state.treeDone && (state.tableDone || docs.length > 0)) {
+      items = await this.reconcileTreePage(
+        ctx,
+        next,
+        pageSize,
+        state.tableDone ? null : docs[docs.length - 1],
+      );
+    }
+
+    // Keys tie in different orders on each side, so match within the page.
+    const entryId = (entry: (typeof docs)[number]) =>
+      JSON.stringify(
+        convexToJson([entry.namespace ?? null, entry.key, entry.id]),
+      );
+    const itemIds = new Set(items.map(entryId));
+    const docIds = new Set(docs.map(entryId));
+    for (const entry of docs) {
+      if (!itemIds.has(entryId(entry)) && !(await this.has(ctx, entry))) {
+        result.missing.push(entry);
+      }
+    }
+    for (const entry of items) {
+      if (docIds.has(entryId(entry))) {
+        continue;
+      }
+      const doc = await ctx.db.get(entry.id);
+      if (doc === null) {
+        result.extra.push(entry);
+        continue;
+      }
+      const expected = this.expectedEntry(doc);
+      if (entryId(expected) !== entryId(entry)) {
+        result.mismatched.push({
+          ...entry,
+          expectedKey: expected.key,
+          expectedNamespace: expected.namespace,
+        });
+      }
+    }
+
+    if (args.fix) {
+      // Delete first, so moved items don't collide with their new position.
+      for (const { namespace, key, id } of [
+        ...result.extra,
+        ...result.mismatched,
+      ]) {
+        await this._deleteIfExists(mutationCtx, namespace, key, id);
+      }
+      for (const entry of result.missing) {
+        await this.fixMissing(mutationCtx, result, entry);
+      }
+    }
+    if (!next.tableDone || !next.treeDone) {
+      result.cursor = JSON.stringify(next);
+      result.isDone = false;
+    }
+    return result;
+  }
+
+  private expectedEntry(doc: TableSearchTreeDocument<T>) {
+    return {
+      key: normalizeKey(this.options.sortKey(doc), this.normalize),
+      id: doc._id as TableSearchTreeId<T>,
+      namespace: this.options.namespace?.(doc) as TableSearchTreeNamespace<T>,
+    };
+  }
+
+  /**
+   * Reads up to `limit` items after the cursor, stopping after `until`,
+   * and advances the cursor past them.
+   */
+  private async reconcileTreePage(
+    ctx: RunQueryCtx,
+    cursor: ReconcileCursor,
+    limit: number,
+    until: {
+      key: T["Key"];
+      namespace: TableSearchTreeNamespace<T>;
+    } | null,
+  ) {
+    const items: ReconcileEntry<
+      T["Key"],
+      TableSearchTreeId<T>,
+      TableSearchTreeNamespace<T>
+    >[] = [];
+    while (items.length < limit) {
+      const { page: namespaces, cursor: namespacesCursor } =
+        await this.paginateNamespaces(ctx, cursor.namespaces, 1);
+      if (namespaces.length === 0) {
+        cursor.treeDone = true;
+        break;
+      }
+      const namespace =
+        namespaces[0] ?? (undefined as TableSearchTreeNamespace<T>);
+      let upper: Bound<T["Key"], TableSearchTreeId<T>> | undefined;
+      if (until !== null) {
+        const cmp = compareValues(namespace, until.namespace);
+        if (cmp > 0) {
+          break;
+        }
+        if (cmp === 0) {
+          upper = { key: until.key, inclusive: true };
+        }
+      }
+      const after = cursor.after && {
+        key: jsonToConvex(cursor.after.key) as T["Key"],
+        id: jsonToConvex(cursor.after.id) as TableSearchTreeId<T>,
+      };
+      const { page, isDone } = await this.paginate(ctx, {
+        namespace,
+        bounds: { lower: after && { ...after, inclusive: false }, upper },
+        pageSize: limit - items.length,
+      });
+      for (const { key, id } of page) {
+        items.push({ key, id, namespace });
+      }
+      const last = page[page.length - 1];
+      if (last !== undefined) {
+        cursor.after = {
+          key: convexToJson(last.key),
+          id: convexToJson(last.id),
+        };
+      }
+      if (!isDone || upper !== undefined) {
+        // There may be more items in this namespace.
+        break;
+      }
+      cursor.namespaces = namespacesCursor;
+      cursor.after = undefined;
+    }
+    return items;
+  }
+
+  /**
+   * Inserts a missing document's item. In trees that track IDs, an item
+   * that has moved may not have been found yet, so it's found by ID,
+   * reported and deleted first.
+   */
+  private async fixMissing(
+    ctx: GenericQueryCtx<T["DataModel"]> & RunMutationCtx,
+    result: ReconcileResult<
+      T["Key"],
+      TableSearchTreeId<T>,
+      TableSearchTreeNamespace<T>
+    >,
+    entry: ReconcileEntry<
+      T["Key"],
+      TableSearchTreeId<T>,
+      TableSearchTreeNamespace<T>
+    >,
+  ) {
+    const doc = (await ctx.db.get(entry.id))!;
+    try {
+      await this.insertIfDoesNotExist(ctx, doc);
+    } catch (e) {
+      if (errorCode(e) !== "DUPLICATE_ID") {
+        throw e;
+      }
+      const { namespace, id } = entry;
+      const key = (await this.keyOf(ctx, { id, namespace }))!;
+      result.mismatched.push({
+        key,
+        id,
+        namespace,
+        expectedKey: entry.key,
+        expectedNamespace: namespace,
+      });
+      await this._deleteIfExists(ctx, namespace, key, id);
+      await this.insertIfDoesNotExist(ctx, doc);
+    }
+  }
 }
 
 export type Trigger<
@@ -645,16 +1933,39 @@ export type Change<
     }
   );
 
-export function btreeItemToAggregateItem<K extends Key, ID extends string>({
+// Reads `paginateConvex` makes to reach an `endCursor` before giving up on
+// the page and requiring a split.
+const MAX_END_CURSOR_READS = 10;
+
+// The code of a ConvexError thrown by the component. Its data may arrive
+// serialized, depending on how the component was called.
+function errorCode(e: unknown): string | undefined {
+  if (!(e instanceof ConvexError)) {
+    return undefined;
+  }
+  const data = typeof e.data === "string" ? JSON.parse(e.data) : e.data;
+  return data?.code;
+}
+
+export function btreeItemToAggregateItem<K extends Key, ID extends ConvexValue>({
   k,
+  s,
+  p,
 }: {
   k: unknown;
+  s?: number;
+  p?: ConvexValue;
 }): Item<K, ID> {
   const { key, id } = positionToKey(k as Position);
-  return {
+  const item: Item<K, ID> = {
     key: key as K,
     id: id as ID,
+    sumValue: s ?? 0,
   };
+  if (p !== undefined) {
+    item.payload = p;
+  }
+  return item;
 }
 
 export type NamespacedArgs<Args, Namespace> =
@@ -669,6 +1980,79 @@ export type NamespacedOptsBatch<Opts, Namespace> = Array<
   undefined extends Namespace ? Opts : { namespace: Namespace } & Opts
 >;
 
+function batchOperationToComponent<K extends Key, ID extends ConvexValue, Namespace>(
+  operation: BatchOperation<K, ID, Namespace>,
+  namespace: Namespace,
+  normalization: KeyNormalization | undefined,
+) {
+  const key = keyToPosition(
+    normalizeKey(operation.key, normalization),
+    operation.id,
+  );
+  switch (operation.type) {
+    case "insert":
+    case "insertIfDoesNotExist":
+      return {
+        type: operation.type,
+        key,
+        value: operation.id,
+        summand: operation.sumValue,
+        payload: operation.payload,
+        namespace,
+      };
+    case "delete":
+    case "deleteIfExists":
+      return { type: operation.type, key, namespace };
+    case "replace":
+      return {
+        type: operation.type,
+        currentKey: key,
+        newKey: keyToPosition(
+          normalizeKey(operation.newKey, normalization),
+          operation.id,
+        ),
+        value: operation.id,
+        summand: operation.sumValue,
+        payload: operation.payload,
+        namespace,
+        newNamespace:
+          "newNamespace" in operation ? operation.newNamespace : namespace,
+      };
+  }
+}
+
+/**
+ * The distance between two numeric keys, or between the last elements of two
+ * tuple keys.
+ */
+function keyDistance(k1: Key, k2: Key): number {
+  const a = distanceElement(k1);
+  const b = distanceElement(k2);
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b);
+  }
+  if (typeof a === "bigint" && typeof b === "bigint") {
+    return Number(a > b ? a - b : b - a);
+  }
+  throw new Error(
+    `nearest can't measure the distance between ${typeof a} and ${typeof b} keys`,
+  );
+}
+
+/**
+ * The part of a key that `nearest` measures distance by: the key itself, or
+ * the last element of a tuple key. Throws unless it's a number or bigint.
+ */
+function distanceElement(key: Key): number | bigint {
+  const element = Array.isArray(key) ? key[key.length - 1] : key;
+  if (typeof element !== "number" && typeof element !== "bigint") {
+    throw new Error(
+      `nearest needs keys that are, or end in, numbers or bigints, got ${JSON.stringify(convexToJson(key))}`,
+    );
+  }
+  return element;
+}
+
 function namespaceFromArg<Namespace>(
   args: { namespace: Namespace } | object,
 ): Namespace {
@@ -0,0 +1,185 @@
+/**
+ * Joins two SearchTrees by walking their items side by side, in the order
+ * the trees store them. Items match when both their keys and IDs are equal,
+ * e.g. the same document in two aggregates over different subsets of a table.
+ */
+
+import { convexToJson, type Value } from "convex/values";
+import type { Key } from "../component/btree.js";
+import { compareValues } from "../component/compare.js";
+import type {
+  Item,
+  NamespacedArgs,
+  NamespacedOpts,
+  RunQueryCtx,
+} from "./index.js";
+import { type Bounds, keyToPosition } from "./positions.js";
+
+type IterOpts<K extends Key, ID extends Value> = {
+  bounds?: Bounds<K, ID> | Bounds<K, ID>[];
+  cursor?: string;
+  order?: "asc" | "desc";
+  pageSize?: number;
+};
+
+// The part of a SearchTree that a join reads. K and ID are only inferred from
+// the items it yields, as inferring them through Bounds is too deep.
+type JoinTree<
+  K extends Key,
+  ID extends Value,
+  Namespace extends Value | undefined,
+> = {
+  iter: (
+    ctx: RunQueryCtx,
+    ...opts: NoInfer<NamespacedOpts<IterOpts<K, ID>, Namespace>>
+  ) => AsyncGenerator<Item<K, ID>, void, undefined>;
+};
+
+// One side of a join: a tree, and which of its items to read.
+export type JoinSide<
+  K extends Key,
+  ID extends Value,
+  Namespace extends Value | undefined,
+> = NamespacedArgs<
+  {
+    tree: JoinTree<K, ID, Namespace>;
+    bounds?: NoInfer<Bounds<K, ID> | Bounds<K, ID>[]>;
+  },
+  Namespace
+>;
+
+// "inner" returns items in both trees, "anti" returns items in the left tree
+// that aren't in the right one.
+export type JoinType = "inner" | "anti";
+
+export type JoinItem<
+  K extends Key,
+  ID extends Value,
+  T extends JoinType,
+> = T extends "inner"
+  ? { left: Item<K, ID>; right: Item<K, ID> }
+  : { left: Item<K, ID> };
+
+/**
+ * Gets a page of the join of two trees, with a cursor to paginate.
+ * The cursor is the position of the last item returned, so both trees
+ * resume from it, and it can be passed to a later query.
+ *
+ * Reads every item of the left tree within its bounds, and as much of the
+ * right tree as it needs to match them, so pages can read many more items
+ * than they return.
+ */
+export async function paginateJoin<
+  K extends Key,
+  ID extends Value,
+  T extends JoinType,
+  LeftNamespace extends Value | undefined = undefined,
+  RightNamespace extends Value | undefined = undefined,
+>(
+  ctx: RunQueryCtx,
+  args: {
+    type: T;
+    left: JoinSide<K, ID, LeftNamespace>;
+    right: JoinSide<K, ID, RightNamespace>;
+    cursor?: string;
+    order?: "asc" | "desc";
+    pageSize?: number;
+  },
+): Promise<{ page: JoinItem<K, ID, T>[]; cursor: string; isDone: boolean }> {
+  const order = args.order ?? "asc";
+  const pageSize = args.pageSize ?? 100;
+  const direction = order === "asc" ? 1 : -1;
+  const left = iterSide(ctx, args.left, args.cursor, order, pageSize);
+  const right = iterSide(ctx, args.right, args.cursor, order, pageSize);
+  const page: JoinItem<K, ID, T>[] = [];
+  let next = await right.next();
+  for await (const item of left) {
+    const position = keyToPosition(item.key, item.id);
+    // Skip right items that come before this one.
+    let cmp = 0;
+    while (!next.done) {
+      cmp =
+        direction *
+        compareValues(keyToPosition(next.value.key, next.value.id), position);
+      if (cmp >= 0) {
+        break;
+      }
+      next = await right.next();
+    }
+    const matched = !next.done && cmp === 0;
+    if (args.type === "inner") {
+      if (next.done) {
+        break;
+      }
+      if (matched) {
+        page.push({ left: item, right: next.value } as JoinItem<K, ID, T>);
+      }
+    } else if (!matched) {
+      page.push({ left: item } as JoinItem<K, ID, T>);
+    }
+    if (page.length >= pageSize) {
+      return {
+        page,
+        cursor: JSON.stringify(convexToJson(position)),
+        isDone: false,
+      };
+    }
+  }
+  return { page, cursor: "", isDone: true };
+}
+
+/**
+ * Iterates over the join of two trees. See {@link paginateJoin}.
+ */
+export async function* iterJoin<
+  K extends Key,
+  ID extends Value,
+  T extends JoinType,
+  LeftNamespace extends Value | undefined = undefined,
+  RightNamespace extends Value | undefined = undefined,
+>(
+  ctx: RunQueryCtx,
+  args: {
+    type: T;
+    left: JoinSide<K, ID, LeftNamespace>;
+    right: JoinSide<K, ID, RightNamespace>;
+    order?: "asc" | "desc";
+    pageSize?: number;
+  },
+): AsyncGenerator<JoinItem<K, ID, T>, void, undefined> {
+  let isDone = false;
+  let cursor: string | undefined = undefined;
+  while (!isDone) {
+    const result: {
+      page: JoinItem<K, ID, T>[];
+      cursor: string;
+      isDone: boolean;
+    } = await paginateJoin(ctx, { ...args, cursor });
+    for (const item of result.page) {
+      yield item;
+    }
+    isDone = result.isDone;
+    cursor = result.cursor;
+  }
+}
+
+function iterSide<
+  K extends Key,
+  ID extends Value,
+  Namespace extends Value | undefined,
+>(
+  ctx: RunQueryCtx,
+  side: JoinSide<K, ID, Namespace>,
+  cursor: string | undefined,
+  order: "asc" | "desc",
+  pageSize: number,
+) {
+  const namespace = (
+    "namespace" in side ? side.namespace : undefined
+  ) as Namespace;
+  const opts = [{ namespace, bounds: side.bounds, cursor, order, pageSize }];
+  return side.tree.iter(
+    ctx,
+    ...(opts as NamespacedOpts<IterOpts<K, ID>, Namespace>),
+  );
+}
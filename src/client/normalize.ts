@@ -0,0 +1,140 @@
+/**
+ * Keys can be normalized before they're stored or compared, so strings that
+ * differ only in case or accents sort together and match each other.
+ * Normalization is applied to keys on every write and to bounds on every
+ * read, so callers pass keys as they are.
+ */
+
+import type { Value } from "convex/values";
+import type { Key } from "../component/btree.js";
+import {
+  type Bounds,
+  type ElementBound,
+  isStringPrefix,
+  type StringPrefix,
+} from "./positions.js";
+
+export type StringNormalization = {
+  // Lower-case the string, so comparisons ignore case.
+  caseFold?: boolean;
+  // Decompose the string (NFKD) and remove combining marks, so "Ä" and "A"
+  // are equal.
+  stripAccents?: boolean;
+  // Unicode normalization form, applied last.
+  form?: "NFC" | "NFD" | "NFKC" | "NFKD";
+};
+
+/**
+ * How to normalize keys. A single StringNormalization applies to a string key
+ * and to every string element of a tuple key. An array applies element-wise
+ * to tuple keys, where `null` leaves an element as it is.
+ */
+export type KeyNormalization =
+  | StringNormalization
+  | (StringNormalization | null)[];
+
+function normalizeString(s: string, normalization: StringNormalization) {
+  if (normalization.caseFold) {
+    s = s.toLowerCase();
+  }
+  if (normalization.stripAccents) {
+    s = s.normalize("NFKD").replace(/\p{M}/gu, "");
+  }
+  if (normalization.form) {
+    s = s.normalize(normalization.form);
+  }
+  return s;
+}
+
+function normalizeElement<E extends Key | StringPrefix>(
+  element: E,
+  normalization: StringNormalization | null | undefined,
+): E {
+  if (!normalization) {
+    return element;
+  }
+  if (typeof element === "string") {
+    return normalizeString(element, normalization) as E;
+  }
+  if (isStringPrefix(element)) {
+    return {
+      stringPrefix: normalizeString(element.stringPrefix, normalization),
+    } as E;
+  }
+  return element;
+}
+
+function elementNormalization(
+  normalization: KeyNormalization,
+  i: number,
+): StringNormalization | null | undefined {
+  return Array.isArray(normalization) ? normalization[i] : normalization;
+}
+
+export function normalizeKey<K extends Key>(
+  key: K,
+  normalization?: KeyNormalization,
+): K {
+  if (normalization === undefined) {
+    return key;
+  }
+  if (Array.isArray(key)) {
+    return key.map((element: Value, i) =>
+      normalizeElement(element, elementNormalization(normalization, i)),
+    ) as K;
+  }
+  // Element-wise normalization only applies to tuple keys.
+  return Array.isArray(normalization)
+    ? key
+    : normalizeElement(key, normalization);
+}
+
+export function normalizeBounds<K extends Key, ID extends Value>(
+  bounds: Bounds<K, ID> | undefined,
+  normalization?: KeyNormalization,
+): Bounds<K, ID> | undefined {
+  if (bounds === undefined || normalization === undefined) {
+    return bounds;
+  }
+  if ("stringPrefix" in bounds) {
+    return Array.isArray(normalization)
+      ? bounds
+      : normalizeElement(bounds, normalization);
+  }
+  if ("prefix" in bounds) {
+    const prefix: (Key | StringPrefix)[] = bounds.prefix;
+    const next = elementNormalization(normalization, prefix.length);
+    const normalized: {
+      prefix: (Key | StringPrefix)[];
+      lower?: ElementBound<Key>;
+      upper?: ElementBound<Key>;
+    } = {
+      prefix: prefix.map((element, i) =>
+        normalizeElement(element, elementNormalization(normalization, i)),
+      ),
+    };
+    if ("lower" in bounds && bounds.lower) {
+      normalized.lower = {
+        ...bounds.lower,
+        key: normalizeElement(bounds.lower.key as Key, next),
+      };
+    }
+    if ("upper" in bounds && bounds.upper) {
+      normalized.upper = {
+        ...bounds.upper,
+        key: normalizeElement(bounds.upper.key as Key, next),
+      };
+    }
+    return normalized as Bounds<K, ID>;
+  }
+  return {
+    lower: bounds.lower && {
+      ...bounds.lower,
+      key: normalizeKey(bounds.lower.key, normalization),
+    },
+    upper: bounds.upper && {
+      ...bounds.upper,
+      key: normalizeKey(bounds.upper.key, normalization),
+    },
+  };
+}
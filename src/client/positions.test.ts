@@ -0,0 +1,290 @@
+import { describe, expect, test } from "vitest";
+import type { Value } from "convex/values";
+import { compareValues } from "../component/compare.js";
+import {
+  type Bounds,
+  boundToPosition,
+  boundsToPositions,
+  includingPosition,
+  keyToPosition,
+  positionToKey,
+} from "./positions.js";
+
+// In the order positions sort for equal keys: string IDs first, then other
+// IDs in Convex value order.
+const ids: Value[] = [
+  "",
+  "a",
+  "b",
+  null,
+  5n,
+  -1,
+  2,
+  false,
+  true,
+  new Uint8Array([1]).buffer,
+  [],
+  [1, 2],
+  ["a"],
+  {},
+  { x: 1 },
+];
+
+describe("positions", () => {
+  test("should round-trip keys and IDs of any Convex type", () => {
+    for (const id of ids) {
+      for (const key of [1, "k", [1, "k"], null]) {
+        expect(positionToKey(keyToPosition(key, id))).toEqual({ key, id });
+      }
+    }
+  });
+
+  test("should tie-break equal keys by ID", () => {
+    const positions = ids.map((id) => keyToPosition(1, id));
+    const shuffled = [...positions].reverse();
+    shuffled.sort(compareValues);
+    expect(shuffled).toEqual(positions);
+    // Keys still take precedence over IDs.
+    expect(
+      compareValues(keyToPosition(1, { x: 1 }), keyToPosition(2, "")),
+    ).toBe(-1);
+  });
+
+  test("should put bounds without an ID around every ID", () => {
+    const lowerInclusive = boundToPosition("lower", {
+      key: 1,
+      inclusive: true,
+    });
+    const upperInclusive = boundToPosition("upper", {
+      key: 1,
+      inclusive: true,
+    });
+    const lowerExclusive = boundToPosition("lower", {
+      key: 1,
+      inclusive: false,
+    });
+    const upperExclusive = boundToPosition("upper", {
+      key: 1,
+      inclusive: false,
+    });
+    for (const id of ids) {
+      const position = keyToPosition(1, id);
+      expect(compareValues(lowerInclusive, position)).toBe(-1);
+      expect(compareValues(upperInclusive, position)).toBe(1);
+      expect(compareValues(lowerExclusive, position)).toBe(1);
+      expect(compareValues(upperExclusive, position)).toBe(-1);
+    }
+  });
+
+  test("should bound by non-string IDs", () => {
+    const lower = boundToPosition("lower", { key: 1, id: 2, inclusive: true });
+    const upper = boundToPosition("upper", {
+      key: 1,
+      id: ["a"],
+      inclusive: false,
+    });
+    const inRange = ids.filter((id) => {
+      const position = keyToPosition(1, id);
+      return (
+        compareValues(lower, position) === -1 &&
+        compareValues(position, upper) === -1
+      );
+    });
+    expect(inRange).toEqual([
+      2,
+      false,
+      true,
+      new Uint8Array([1]).buffer,
+      [],
+      [1, 2],
+    ]);
+  });
+
+  test("should cover every ID under a prefix", () => {
+    const { k1, k2 } = boundsToPositions<[number, string], Value>({
+      prefix: [1],
+    });
+    for (const id of ids) {
+      const position = keyToPosition([1, "x"], id);
+      expect(compareValues(k1!, position)).toBe(-1);
+      expect(compareValues(position, k2!)).toBe(-1);
+    }
+  });
+
+  test("should bound strings by prefix, including surrogate pairs", () => {
+    const strings = [
+      "",
+      "a",
+      "al",
+      "ali",
+      "alice",
+      "alj",
+      "b",
+      "a\uffff",
+      "a\uffffz",
+      "\ud7ff",
+      "\ud7ffx",
+      "\ud800\udc00",
+      "\ud83d\ude00",
+      "\ud83d\ude00!",
+      "\ud83d\ude01",
+      "\ud83d\udfff",
+      "\ud83d\udfffz",
+      "\ud83e\udc00",
+      "\udbff\udfff",
+      "\udbff\udfffz",
+      "\ue000",
+      "\uffff",
+      "\uffff\uffff",
+    ];
+    const others: Value[] = [null, 1, new ArrayBuffer(0), ["ali"]];
+    const unpairedSurrogate =
+      /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/;
+    for (const prefix of [
+      "ali",
+      "",
+      "a\uffff",
+      "\ud7ff",
+      "\ud83d",
+      "\ud83d\ude00",
+      "\ud83d\udfff",
+      "\udbff",
+      "\udbff\udfff",
+      "\uffff",
+    ]) {
+      const { k1, k2 } = boundsToPositions<string, string>({
+        stringPrefix: prefix,
+      });
+      for (const bound of [k1![0], k2![0]]) {
+        if (typeof bound === "string") {
+          expect(bound).not.toMatch(unpairedSurrogate);
+        }
+      }
+      for (const key of [...strings, ...others]) {
+        const position = keyToPosition(key, "id");
+        const inRange =
+          compareValues(k1!, position) === -1 &&
+          compareValues(position, k2!) === -1;
+        expect(inRange, `${JSON.stringify([prefix, key])}`).toBe(
+          typeof key === "string" && key.startsWith(prefix),
+        );
+      }
+    }
+  });
+
+  test("should bound a string prefix within a tuple prefix", () => {
+    const { k1, k2 } = boundsToPositions<[number, string, number], Value>({
+      prefix: [1, { stringPrefix: "ali" }],
+    });
+    const keys: [Value[], boolean][] = [
+      [[1], false],
+      [[1, "al"], false],
+      [[1, "ali"], true],
+      [[1, "ali", 5], true],
+      [[1, "alice", 0], true],
+      [[1, "alj"], false],
+      [[0, "alice"], false],
+      [[2, "alice"], false],
+    ];
+    for (const [key, expected] of keys) {
+      for (const id of ids) {
+        const position = keyToPosition(key, id);
+        const inRange =
+          compareValues(k1!, position) === -1 &&
+          compareValues(position, k2!) === -1;
+        expect(inRange).toBe(expected);
+      }
+    }
+  });
+
+  test("should put upper bounds after object IDs and key elements", () => {
+    const objects: Value[] = [{}, { x: 1 }, { x: { y: [2] } }, { z: "" }];
+    const keys: Value[] = [
+      ...objects,
+      ...objects.map((object) => [1, object]),
+      ...objects.map((object) => [1, object, object]),
+    ];
+    const { k2 } = boundsToPositions<[number, Value, Value], Value>({
+      prefix: [1],
+    });
+    for (const key of keys) {
+      for (const id of [...ids, ...objects]) {
+        const position = keyToPosition(key, id);
+        const after = includingPosition("upper", position);
+        expect(compareValues(position, after)).toBe(-1);
+        expect(
+          compareValues(includingPosition("lower", position), position),
+        ).toBe(-1);
+        expect(
+          compareValues(
+            position,
+            boundToPosition("upper", { key, inclusive: true }),
+          ),
+        ).toBe(-1);
+        if (Array.isArray(key)) {
+          expect(compareValues(position, k2!)).toBe(-1);
+          const { k2: elementK2 } = boundsToPositions<
+            [number, Value, Value],
+            Value
+          >({
+            prefix: [1],
+            upper: { key: key[1] },
+          });
+          expect(compareValues(position, elementK2!)).toBe(-1);
+        }
+      }
+    }
+  });
+
+  test("should bound the element after a tuple prefix", () => {
+    const keys: Value[][] = [
+      ["u"],
+      ["u", 49],
+      ["u", 50],
+      ["u", 50, "x"],
+      ["u", 70],
+      ["u", 90],
+      ["u", 90, "x"],
+      ["u", 91],
+      ["t", 70],
+      ["v", 70],
+    ];
+    const inRange = (bounds: Bounds<[string, number], Value>) => {
+      const { k1, k2 } = boundsToPositions(bounds);
+      return keys.filter((key) =>
+        ids.every((id) => {
+          const position = keyToPosition(key, id);
+          return (
+            compareValues(k1!, position) === -1 &&
+            compareValues(position, k2!) === -1
+          );
+        }),
+      );
+    };
+    expect(
+      inRange({ prefix: ["u"], lower: { key: 50 }, upper: { key: 90 } }),
+    ).toEqual([
+      ["u", 50],
+      ["u", 50, "x"],
+      ["u", 70],
+      ["u", 90],
+      ["u", 90, "x"],
+    ]);
+    expect(
+      inRange({
+        prefix: ["u"],
+        lower: { key: 50, inclusive: false },
+        upper: { key: 90, inclusive: false },
+      }),
+    ).toEqual([["u", 70]]);
+    expect(inRange({ prefix: ["u"], upper: { key: 50 } })).toEqual([
+      ["u"],
+      ["u", 49],
+      ["u", 50],
+      ["u", 50, "x"],
+    ]);
+    expect(
+      inRange({ prefix: [], lower: { key: "u", inclusive: false } }),
+    ).toEqual([["v", 70]]);
+  });
+});
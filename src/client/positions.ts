@@ -7,13 +7,13 @@
 import type { Value } from "convex/values";
 import type { Key } from "../component/btree.js";
 
-export type Bound<K extends Key, ID extends string> = {
+export type Bound<K extends Key, ID extends Value> = {
   key: K;
   id?: ID;
   inclusive: boolean;
 };
 
-export type SideBounds<K extends Key, ID extends string> = {
+export type SideBounds<K extends Key, ID extends Value> = {
   lower?: Bound<K, ID>;
   upper?: Bound<K, ID>;
 };
@@ -26,20 +26,79 @@ export type TuplePrefix<
   ? P
   : P | TuplePrefix<K, [...P, K[P["length"]]]>;
 
-export type Bounds<K extends Key, ID extends string> =
+// Matches strings that start with `stringPrefix`.
+export type StringPrefix = { stringPrefix: string };
+
+// A TuplePrefix whose last element is a StringPrefix, where that element of
+// the key can be a string.
+// e.g. TupleStringPrefix<[number, string]> = [number, StringPrefix]
+export type TupleStringPrefix<
+  K extends unknown[],
+  P extends unknown[] = [],
+> = P["length"] extends K["length"]
+  ? never
+  :
+      | ([Extract<K[P["length"]], string>] extends [never]
+          ? never
+          : [...P, StringPrefix])
+      | TupleStringPrefix<K, [...P, K[P["length"]]]>;
+
+// Bounds one element of a tuple key. Inclusive unless `inclusive` is false.
+export type ElementBound<E> = {
+  key: E;
+  inclusive?: boolean;
+};
+
+// A TuplePrefix with a range on the element that follows it.
+// e.g. { prefix: [userId], lower: { key: 50 }, upper: { key: 90 } }
+export type TuplePrefixRange<K extends unknown[]> = {
+  prefix: TuplePrefix<K>;
+  lower?: ElementBound<K[number]>;
+  upper?: ElementBound<K[number]>;
+};
+
+export type Bounds<K extends Key, ID extends Value> =
   | SideBounds<K, ID>
   | {
-      prefix: TuplePrefix<Extract<K, unknown[]>>;
-    };
+      prefix:
+        | TuplePrefix<Extract<K, unknown[]>>
+        | TupleStringPrefix<Extract<K, unknown[]>>;
+    }
+  | TuplePrefixRange<Extract<K, unknown[]>>
+  | ([Extract<K, string>] extends [never] ? never : StringPrefix);
 
-// IDs are strings so in the Convex ordering, null < IDs < arrays.
+// IDs are stored as strings, or wrapped in an array if they're any other
+// Convex value (see encodeId). So in the Convex ordering,
+// null < string IDs < other IDs < objects.
+// Objects can sort after {}, so these are only ever compared with encoded
+// IDs, the "" that follows each element of an exploded key, or each other.
+// An object ID or key element is never compared with them directly: it's
+// inside an array, or followed by an "".
 const BEFORE_ALL_IDS = null;
-const AFTER_ALL_IDS: never[] = [];
+const AFTER_ALL_IDS: Record<string, never> = {};
 
 // First a key, which is exploded with explodeKey.
-// Then the ID, or BEFORE_ALL_IDS or AFTER_ALL_IDS.
+// Then the ID, encoded with encodeId, or BEFORE_ALL_IDS or AFTER_ALL_IDS.
 // Then a value to be inclusive or exclusive.
-export type Position = [Key, string | null | never[], "" | null | never[]];
+export type Position = [
+  Key,
+  string | [Value] | null | Record<string, never>,
+  "" | null | Record<string, never>,
+];
+
+/**
+ * Items with equal keys are ordered by ID: string IDs first, in string
+ * order, then all other IDs in Convex value order. Strings are stored as-is
+ * so positions written before non-string IDs were supported stay valid.
+ * Everything else is wrapped, so no encoded ID is an object.
+ */
+function encodeId(id: Value): string | [Value] {
+  return typeof id === "string" ? id : [id];
+}
+
+function decodeId(encoded: Value): Value {
+  return typeof encoded === "string" ? encoded : (encoded as [Value])[0];
+}
 
 function explodeKey<K extends Key>(key: K): Key {
   if (Array.isArray(key)) {
@@ -64,35 +123,96 @@ function implodeKey(k: Key): Key {
   return k;
 }
 
-export function keyToPosition<K extends Key, ID extends string>(
+export function keyToPosition<K extends Key, ID extends Value>(
   key: K,
   id: ID,
 ): Position {
-  return [explodeKey(key), id, ""];
+  return [explodeKey(key), encodeId(id), ""];
 }
 
-export function positionToKey<K extends Key, ID extends string>(
+export function positionToKey<K extends Key, ID extends Value>(
   position: Position,
 ): { key: K; id: ID } {
-  return { key: implodeKey(position[0]) as K, id: position[1] as ID };
+  return {
+    key: implodeKey(position[0]) as K,
+    id: decodeId(position[1]) as ID,
+  };
+}
+
+/**
+ * A position next to the item at `position`, so bounding by it in the given
+ * direction includes that item.
+ */
+export function includingPosition(
+  direction: "lower" | "upper",
+  position: Position,
+): Position {
+  return [
+    position[0],
+    position[1],
+    direction === "lower" ? BEFORE_ALL_IDS : AFTER_ALL_IDS,
+  ];
 }
 
-export function boundsToPositions<K extends Key, ID extends string>(
+export function boundsToPositions<K extends Key, ID extends Value>(
   bounds?: Bounds<K, ID>,
 ): { k1?: Position; k2?: Position } {
   if (bounds === undefined) {
     return {};
   }
+  if ("stringPrefix" in bounds) {
+    return {
+      k1: [
+        stringPrefixLower(bounds.stringPrefix),
+        BEFORE_ALL_IDS,
+        BEFORE_ALL_IDS,
+      ],
+      k2: [
+        stringPrefixUpper(bounds.stringPrefix),
+        BEFORE_ALL_IDS,
+        BEFORE_ALL_IDS,
+      ],
+    };
+  }
   if ("prefix" in bounds) {
-    const prefix: Key[] = bounds.prefix;
+    const prefix: (Key | StringPrefix)[] = bounds.prefix;
     const exploded: Key = [];
     for (const item of prefix) {
       exploded.push("");
+      if (isStringPrefix(item)) {
+        // Only allowed last, so this ends the loop.
+        return {
+          k1: [
+            exploded.concat([stringPrefixLower(item.stringPrefix)]),
+            BEFORE_ALL_IDS,
+            BEFORE_ALL_IDS,
+          ],
+          k2: [
+            exploded.concat([stringPrefixUpper(item.stringPrefix)]),
+            BEFORE_ALL_IDS,
+            BEFORE_ALL_IDS,
+          ],
+        };
+      }
       exploded.push(item);
     }
+    const lower = "lower" in bounds ? bounds.lower : undefined;
+    const upper = "upper" in bounds ? bounds.upper : undefined;
     return {
-      k1: [exploded.concat([BEFORE_ALL_IDS]), BEFORE_ALL_IDS, BEFORE_ALL_IDS],
-      k2: [exploded.concat([AFTER_ALL_IDS]), AFTER_ALL_IDS, AFTER_ALL_IDS],
+      k1: [
+        lower === undefined
+          ? exploded.concat([BEFORE_ALL_IDS])
+          : elementBoundKey(exploded, "lower", lower),
+        BEFORE_ALL_IDS,
+        BEFORE_ALL_IDS,
+      ],
+      k2: [
+        upper === undefined
+          ? exploded.concat([AFTER_ALL_IDS])
+          : elementBoundKey(exploded, "upper", upper),
+        AFTER_ALL_IDS,
+        AFTER_ALL_IDS,
+      ],
     };
   }
   return {
@@ -101,16 +221,93 @@ export function boundsToPositions<K extends Key, ID extends string>(
   };
 }
 
-export function boundToPosition<K extends Key, ID extends string>(
+/**
+ * The exploded key bounding the element after `exploded`, a prefix.
+ * Keys with that element equal to the bound's key are exploded with an ""
+ * after it, so stopping short of that sorts before all of them, and putting
+ * AFTER_ALL_IDS there sorts after all of them.
+ */
+function elementBoundKey(
+  exploded: Key[],
+  direction: "lower" | "upper",
+  bound: ElementBound<unknown>,
+): Key[] {
+  const key = exploded.concat(["", bound.key as Key]);
+  const inclusive = bound.inclusive ?? true;
+  const after = direction === "lower" ? !inclusive : inclusive;
+  return after ? key.concat([AFTER_ALL_IDS]) : key;
+}
+
+export function isStringPrefix(item: Key | StringPrefix): item is StringPrefix {
+  return (
+    typeof item === "object" &&
+    item !== null &&
+    !Array.isArray(item) &&
+    !(item instanceof ArrayBuffer) &&
+    typeof item.stringPrefix === "string"
+  );
+}
+
+// Strings compare by UTF-16 code units (see compare.ts). Convex strings can't
+// contain unpaired surrogates, so the bounds below never do either.
+function isHighSurrogate(c: number) {
+  return c >= 0xd800 && c <= 0xdbff;
+}
+
+function isLowSurrogate(c: number) {
+  return c >= 0xdc00 && c <= 0xdfff;
+}
+
+/**
+ * The smallest string that starts with `prefix`.
+ */
+function stringPrefixLower(prefix: string): string {
+  // A prefix that ends halfway through a surrogate pair can only be completed
+  // by a low surrogate.
+  return isHighSurrogate(prefix.charCodeAt(prefix.length - 1))
+    ? prefix + "\udc00"
+    : prefix;
+}
+
+/**
+ * The smallest value after every string that starts with `prefix`.
+ * That's the prefix with its last code unit incremented, carrying past
+ * 0xffff and the end of surrogate pairs. If there is no such string, it's
+ * the smallest bytes value, as bytes come right after strings.
+ */
+function stringPrefixUpper(prefix: string): string | ArrayBuffer {
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    const head = prefix.slice(0, i);
+    const c = prefix.charCodeAt(i) + 1;
+    if (isHighSurrogate(head.charCodeAt(i - 1))) {
+      // The second half of a surrogate pair.
+      if (c <= 0xdfff) {
+        return head + String.fromCharCode(c);
+      }
+      continue;
+    }
+    if (c > 0xffff) {
+      continue;
+    }
+    if (isHighSurrogate(c)) {
+      return head + String.fromCharCode(c, 0xdc00);
+    }
+    // A low surrogate can't start a character, so skip past them.
+    return head + String.fromCharCode(isLowSurrogate(c) ? 0xe000 : c);
+  }
+  return new ArrayBuffer(0);
+}
+
+export function boundToPosition<K extends Key, ID extends Value>(
   direction: "lower" | "upper",
   bound: Bound<K, ID>,
 ): Position;
 export function boundToPosition(direction: "lower" | "upper"): undefined;
-export function boundToPosition<K extends Key, ID extends string>(
+export function boundToPosition<K extends Key, ID extends Value>(
   direction: "lower" | "upper",
   bound?: Bound<K, ID>,
 ): Position | undefined;
-export function boundToPosition<K extends Key, ID extends string>(
+export function boundToPosition<K extends Key, ID extends Value>(
   direction: "lower" | "upper",
   bound?: Bound<K, ID>,
 ): Position | undefined {
@@ -120,13 +317,21 @@ export function boundToPosition<K extends Key, ID extends string>(
   if (direction === "lower") {
     return [
       explodeKey(bound.key),
-      bound.id ?? (bound.inclusive ? BEFORE_ALL_IDS : AFTER_ALL_IDS),
+      bound.id !== undefined
+        ? encodeId(bound.id)
+        : bound.inclusive
+          ? BEFORE_ALL_IDS
+          : AFTER_ALL_IDS,
       bound.inclusive ? BEFORE_ALL_IDS : AFTER_ALL_IDS,
     ];
   } else {
     return [
       explodeKey(bound.key),
-      bound.id ?? (bound.inclusive ? AFTER_ALL_IDS : BEFORE_ALL_IDS),
+      bound.id !== undefined
+        ? encodeId(bound.id)
+        : bound.inclusive
+          ? AFTER_ALL_IDS
+          : BEFORE_ALL_IDS,
       bound.inclusive ? AFTER_ALL_IDS : BEFORE_ALL_IDS,
     ];
   }
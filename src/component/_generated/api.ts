@@ -8,10 +8,15 @@
  * @module
  */
 
+import type * as backfill from "../backfill.js";
 import type * as btree from "../btree.js";
+import type * as buffer from "../buffer.js";
+import type * as bulkLoad from "../bulkLoad.js";
 import type * as compare from "../compare.js";
+import type * as deletion from "../deletion.js";
 import type * as inspect from "../inspect.js";
 import type * as public_ from "../public.js";
+import type * as resize from "../resize.js";
 
 import type {
   ApiFromModules,
@@ -21,10 +26,15 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  backfill: typeof backfill;
   btree: typeof btree;
+  buffer: typeof buffer;
+  bulkLoad: typeof bulkLoad;
   compare: typeof compare;
+  deletion: typeof deletion;
   inspect: typeof inspect;
   public: typeof public_;
+  resize: typeof resize;
 }> = anyApi as any;
 
 /**
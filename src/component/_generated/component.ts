@@ -23,12 +23,110 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    backfill: {
+      recordProgress: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          continueCursor: string;
+          cursor: string | null;
+          index?: string;
+          isDone: boolean;
+          processed: number;
+          table: string;
+        },
+        null,
+        Name
+      >;
+      reset: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; table: string },
+        null,
+        Name
+      >;
+      status: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; table: string },
+        null | { cursor: string | null; isDone: boolean; processed: number },
+        Name
+      >;
+    };
     btree: {
+      aggregateBetween: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; k1?: any; k2?: any; namespace?: any },
+        { count: number; sum: number },
+        Name
+      >;
+      aggregateBetweenBatch: FunctionReference<
+        "query",
+        "internal",
+        {
+          queries: Array<{
+            index?: string;
+            k1?: any;
+            k2?: any;
+            namespace?: any;
+          }>;
+        },
+        Array<{ count: number; sum: number }>,
+        Name
+      >;
+      around: FunctionReference<
+        "query",
+        "internal",
+        {
+          after: number;
+          before: number;
+          index?: string;
+          k1?: any;
+          k2?: any;
+          key: any;
+          namespace?: any;
+        },
+        {
+          after: Array<{ k: any; p?: any; s?: number; v: any }>;
+          before: Array<{ k: any; p?: any; s?: number; v: any }>;
+        },
+        Name
+      >;
+      atOffset: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; k1?: any; k2?: any; namespace?: any; offset: number },
+        { k: any; p?: any; s?: number; v: any },
+        Name
+      >;
+      atOffsetBatch: FunctionReference<
+        "query",
+        "internal",
+        {
+          queries: Array<{
+            index?: string;
+            k1?: any;
+            k2?: any;
+            namespace?: any;
+            offset: number;
+          }>;
+        },
+        Array<{ k: any; p?: any; s?: number; v: any }>,
+        Name
+      >;
       get: FunctionReference<
         "query",
         "internal",
-        { key: any; namespace?: any },
-        null | { k: any; v: string },
+        { index?: string; key: any; namespace?: any },
+        null | { k: any; p?: any; s?: number; v: any },
+        Name
+      >;
+      getById: FunctionReference<
+        "query",
+        "internal",
+        { id: any; index?: string; namespace?: any },
+        null | { k: any; p?: any; s?: number; v: any },
         Name
       >;
       paginate: FunctionReference<
@@ -36,52 +134,171 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           cursor?: string;
+          index?: string;
           k1?: any;
           k2?: any;
           limit: number;
           namespace?: any;
           order: "asc" | "desc";
         },
-        { cursor: string; isDone: boolean; page: Array<{ k: any; v: string }> },
+        {
+          cursor: string;
+          isDone: boolean;
+          page: Array<{ k: any; p?: any; s?: number; v: any }>;
+        },
         Name
       >;
       paginateNamespaces: FunctionReference<
         "query",
         "internal",
-        { cursor?: string; limit: number },
+        {
+          cursor?: string;
+          index?: string;
+          limit: number;
+          lower?: { inclusive: boolean; namespace?: any };
+          prefix?: Array<any>;
+          upper?: { inclusive: boolean; namespace?: any };
+        },
         { cursor: string; isDone: boolean; page: Array<any> },
         Name
       >;
+      paginateRanges: FunctionReference<
+        "query",
+        "internal",
+        {
+          cursor?: string;
+          index?: string;
+          limit: number;
+          namespace?: any;
+          order: "asc" | "desc";
+          ranges: Array<{ k1?: any; k2?: any }>;
+        },
+        {
+          cursor: string;
+          isDone: boolean;
+          page: Array<{ k: any; p?: any; s?: number; v: any }>;
+        },
+        Name
+      >;
       validate: FunctionReference<
         "query",
         "internal",
-        { namespace?: any },
+        { index?: string; namespace?: any },
         any,
         Name
       >;
     };
+    buffer: {
+      setBuffered: FunctionReference<
+        "mutation",
+        "internal",
+        { buffered: boolean; index?: string; namespace?: any },
+        null,
+        Name
+      >;
+    };
+    bulkLoad: {
+      append: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          items: Array<{
+            key: any;
+            payload?: any;
+            summand?: number;
+            value: any;
+          }>;
+          index?: string;
+          namespace?: any;
+        },
+        null,
+        Name
+      >;
+      cancel: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
+      finish: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
+      status: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; namespace?: any },
+        null | {
+          count: number;
+          last: null | { k: any; p?: any; s?: number; v: any };
+        },
+        Name
+      >;
+    };
+    deletion: {
+      cancel: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
+      resume: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
+      status: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; namespace?: any },
+        null | { cancelled: boolean; deleted: number },
+        Name
+      >;
+    };
     inspect: {
       display: FunctionReference<
         "query",
         "internal",
-        { namespace?: any },
+        { index?: string; namespace?: any },
         any,
         Name
       >;
       dump: FunctionReference<
         "query",
         "internal",
-        { namespace?: any },
+        { index?: string; namespace?: any },
         string,
         Name
       >;
       inspectNode: FunctionReference<
         "query",
         "internal",
-        { namespace?: any; node?: string },
+        { index?: string; namespace?: any; node?: string },
         null,
         Name
       >;
+      listItemIds: FunctionReference<
+        "query",
+        "internal",
+        { take?: number },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          id: any;
+          index?: string;
+          key: any;
+          namespace?: any;
+          tree: string;
+        }>,
+        Name
+      >;
       listTreeNodes: FunctionReference<
         "query",
         "internal",
@@ -89,7 +306,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Array<{
           _creationTime: number;
           _id: string;
-          items: Array<{ k: any; v: string }>;
+          aggregate?: { count: number; sum: number };
+          items: Array<{ k: any; p?: any; s?: number; v: any }>;
           subtrees: Array<string>;
         }>,
         Name
@@ -101,46 +319,128 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Array<{
           _creationTime: number;
           _id: string;
+          buffered?: boolean;
+          index?: string;
           maxNodeSize: number;
           namespace?: any;
+          resizing?: boolean;
           root: string;
+          trackIds?: boolean;
+          unbuffering?: boolean;
         }>,
         Name
       >;
     };
     public: {
+      applyBatch: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          operations: Array<
+            | {
+                index?: string;
+                key: any;
+                namespace?: any;
+                payload?: any;
+                summand?: number;
+                type: "insert";
+                value: any;
+              }
+            | { index?: string; key: any; namespace?: any; type: "delete" }
+            | {
+                currentKey: any;
+                index?: string;
+                namespace?: any;
+                newKey: any;
+                newNamespace?: any;
+                payload?: any;
+                summand?: number;
+                type: "replace";
+                value: any;
+              }
+            | {
+                index?: string;
+                key: any;
+                namespace?: any;
+                payload?: any;
+                summand?: number;
+                type: "insertIfDoesNotExist";
+                value: any;
+              }
+            | {
+                index?: string;
+                key: any;
+                namespace?: any;
+                type: "deleteIfExists";
+              }
+          >;
+        },
+        null,
+        Name
+      >;
       clear: FunctionReference<
         "mutation",
         "internal",
-        { maxNodeSize?: number; namespace?: any },
+        {
+          index?: string;
+          maxNodeSize?: number;
+          namespace?: any;
+          trackIds?: boolean;
+        },
         null,
         Name
       >;
       delete_: FunctionReference<
         "mutation",
         "internal",
-        { key: any; namespace?: any },
+        { index?: string; key: any; namespace?: any },
+        null,
+        Name
+      >;
+      deleteById: FunctionReference<
+        "mutation",
+        "internal",
+        { id: any; index?: string; namespace?: any },
         null,
         Name
       >;
       deleteIfExists: FunctionReference<
         "mutation",
         "internal",
-        { key: any; namespace?: any },
+        { index?: string; key: any; namespace?: any },
         any,
         Name
       >;
+      deleteNamespace: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
       init: FunctionReference<
         "mutation",
         "internal",
-        { maxNodeSize?: number; namespace?: any },
+        {
+          index?: string;
+          maxNodeSize?: number;
+          namespace?: any;
+          trackIds?: boolean;
+        },
         null,
         Name
       >;
       insert: FunctionReference<
         "mutation",
         "internal",
-        { key: any; namespace?: any; value: string },
+        {
+          index?: string;
+          key: any;
+          namespace?: any;
+          payload?: any;
+          summand?: number;
+          value: any;
+        },
         null,
         Name
       >;
@@ -149,10 +449,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           currentKey: any;
+          index?: string;
           namespace?: any;
           newKey: any;
           newNamespace?: any;
-          value: string;
+          payload?: any;
+          summand?: number;
+          value: any;
         },
         null,
         Name
@@ -162,13 +465,46 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           currentKey: any;
+          index?: string;
           namespace?: any;
           newKey: any;
           newNamespace?: any;
-          value: string;
+          payload?: any;
+          summand?: number;
+          value: any;
         },
         any,
         Name
       >;
+      updateKeyById: FunctionReference<
+        "mutation",
+        "internal",
+        { id: any; index?: string; namespace?: any; newKey: any },
+        null,
+        Name
+      >;
+    };
+    resize: {
+      cancel: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; namespace?: any },
+        null,
+        Name
+      >;
+      start: FunctionReference<
+        "mutation",
+        "internal",
+        { index?: string; maxNodeSize: number; namespace?: any },
+        null,
+        Name
+      >;
+      status: FunctionReference<
+        "query",
+        "internal",
+        { index?: string; namespace?: any },
+        null | { count: number; maxNodeSize: number; total: number },
+        Name
+      >;
     };
   };
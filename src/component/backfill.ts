@@ -0,0 +1,92 @@
+import { ConvexError, v } from "convex/values";
+import { type DatabaseReader, mutation, query } from "./_generated/server.js";
+import type { Index } from "./btree.js";
+
+/**
+ * Progress of backfilling the tree from an app table, one page at a time.
+ * The component can't read app tables, so the client walks the table and
+ * records each page here, in the same transaction as the page's writes.
+ */
+
+const backfillStatus = v.object({
+  cursor: v.union(v.string(), v.null()),
+  isDone: v.boolean(),
+  processed: v.number(),
+});
+
+export const status = query({
+  args: { table: v.string(), index: v.optional(v.string()) },
+  returns: v.union(v.null(), backfillStatus),
+  handler: async (ctx, { table, index }) => {
+    const backfill = await getBackfill(ctx.db, table, index);
+    if (!backfill) {
+      return null;
+    }
+    const { cursor, isDone, processed } = backfill;
+    return { cursor, isDone, processed };
+  },
+});
+
+/**
+ * Records that the page starting at `cursor` has been backfilled.
+ * Throws if another run already recorded that page, so concurrent runs of
+ * the same backfill don't both carry on.
+ */
+export const recordProgress = mutation({
+  args: {
+    table: v.string(),
+    index: v.optional(v.string()),
+    cursor: v.union(v.string(), v.null()),
+    continueCursor: v.string(),
+    isDone: v.boolean(),
+    processed: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const backfill = await getBackfill(ctx.db, args.table, args.index);
+    const expectedCursor = backfill?.cursor ?? null;
+    if (expectedCursor !== args.cursor) {
+      throw new ConvexError({
+        code: "BACKFILL_CURSOR_MISMATCH",
+        message: `backfill of ${args.table} is at cursor ${expectedCursor}, not ${args.cursor}`,
+      });
+    }
+    if (backfill) {
+      await ctx.db.patch(backfill._id, {
+        cursor: args.continueCursor,
+        isDone: args.isDone,
+        processed: backfill.processed + args.processed,
+      });
+    } else {
+      await ctx.db.insert("backfill", {
+        table: args.table,
+        index: args.index,
+        cursor: args.continueCursor,
+        isDone: args.isDone,
+        processed: args.processed,
+      });
+    }
+  },
+});
+
+/**
+ * Forgets the backfill's progress, so the next run starts from the
+ * beginning of the table.
+ */
+export const reset = mutation({
+  args: { table: v.string(), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { table, index }) => {
+    const backfill = await getBackfill(ctx.db, table, index);
+    if (backfill) {
+      await ctx.db.delete(backfill._id);
+    }
+  },
+});
+
+async function getBackfill(db: DatabaseReader, table: string, index: Index) {
+  return await db
+    .query("backfill")
+    .withIndex("by_index_table", (q) => q.eq("index", index).eq("table", table))
+    .unique();
+}
@@ -4,7 +4,6 @@ import {
   type Value as ConvexValue,
   jsonToConvex,
   v,
-  type GenericId,
 } from "convex/values";
 import {
   type DatabaseReader,
@@ -15,6 +14,8 @@ import {
 import type { Doc, Id } from "./_generated/dataModel.js";
 import { compareValues } from "./compare.js";
 import {
+  type Aggregate,
+  aggregate,
   type Item,
   itemValidator,
 } from "./schema.js";
@@ -22,11 +23,15 @@ import { internal } from "./_generated/api.js";
 
 const BTREE_DEBUG = false;
 export const DEFAULT_MAX_NODE_SIZE = 16;
+// Payloads are stored in every node write, so they must stay small.
+export const MAX_PAYLOAD_SIZE = 1024;
 
 export type Key = ConvexValue;
-// Value is always a Convex ID.
-export type Value = GenericId<string>;
+// Value is usually an ID, but may be any Convex value.
+export type Value = ConvexValue;
 export type Namespace = ConvexValue | undefined;
+// The name of an independent set of trees, one per namespace.
+export type Index = string | undefined;
 
 export function p(v: ConvexValue): string {
   try {
@@ -49,31 +54,71 @@ function log(s: string) {
  */
 export async function insertHandler(
   ctx: { db: DatabaseWriter },
-  args: { key: Key; value: Value; namespace?: Namespace },
+  args: {
+    key: Key;
+    value: Value;
+    summand?: number;
+    payload?: ConvexValue;
+    namespace?: Namespace;
+    index?: Index;
+  },
 ) {
   const tree = await getOrCreateTree(
     ctx.db,
     args.namespace,
+    args.index,
     DEFAULT_MAX_NODE_SIZE,
   );
+  if (tree.trackIds && (await findById(ctx.db, tree, args.value)) !== null) {
+    throw new ConvexError({
+      code: "DUPLICATE_ID",
+      message: `id ${p(args.value)} is already in the tree`,
+    });
+  }
+  const item = makeItem(args.key, args.value, args.summand, args.payload);
   // Attempt to insert into the root node.
   // If the root is full, it might return a 'PushUp' object containing the median item
   // and the two split nodes.
-  const pushUp = await insertIntoNode(ctx, args.namespace, tree.root, {
-    k: args.key,
-    v: args.value,
-  });
+  const pushUp = await insertIntoNode(ctx, tree.maxNodeSize, tree.root, item);
 
   // If the root split, create a new root node.
   if (pushUp) {
-    const newRoot = await ctx.db.insert("btreeNode", {
-      items: [pushUp.item],
-      subtrees: [pushUp.leftSubtree, pushUp.rightSubtree],
-    });
     await ctx.db.patch(tree._id, {
-      root: newRoot,
+      root: await splitRoot(ctx.db, pushUp),
     });
   }
+  if (tree.trackIds) {
+    await recordId(ctx.db, tree, item);
+  }
+  await logResizeWrite(ctx.db, tree, args.key);
+}
+
+/**
+ * Updates the summand and payload of an existing item in place, since
+ * neither affects where the item belongs in the tree.
+ * Returns false if the key doesn't exist.
+ */
+export async function updateHandler(
+  ctx: { db: DatabaseWriter },
+  args: {
+    key: Key;
+    summand?: number;
+    payload?: ConvexValue;
+    namespace?: Namespace;
+    index?: Index;
+  },
+): Promise<boolean> {
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return false;
+  }
+  const delta = await updateInNode(ctx.db, tree.root, args.key, (item) =>
+    makeItem(item.k, item.v, args.summand, args.payload),
+  );
+  if (delta !== null) {
+    await logResizeWrite(ctx.db, tree, args.key);
+  }
+  return delta !== null;
 }
 
 /**
@@ -83,34 +128,110 @@ export async function insertHandler(
  */
 export async function deleteHandler(
   ctx: { db: DatabaseWriter },
-  args: { key: Key; namespace?: Namespace },
+  args: { key: Key; namespace?: Namespace; index?: Index },
 ) {
   const tree = await getOrCreateTree(
     ctx.db,
     args.namespace,
+    args.index,
     DEFAULT_MAX_NODE_SIZE,
   );
 
   // Perform the deletion starting from the root.
-  await deleteFromNode(ctx, args.namespace, tree.root, args.key);
+  const deleted = await deleteFromNode(
+    ctx,
+    tree.maxNodeSize,
+    tree.root,
+    args.key,
+  );
+  if (tree.trackIds && deleted !== null) {
+    await forgetId(ctx.db, tree, deleted);
+  }
+  await logResizeWrite(ctx.db, tree, args.key);
 
   // Check if the root can be collapsed.
-  const root = (await ctx.db.get(tree.root))!;
-  if (root.items.length === 0 && root.subtrees.length === 1) {
-    log(
-      `collapsing root ${root._id} because its only child is ${root.subtrees[0]}`,
-    );
-    // Make the only child the new root.
-    await ctx.db.patch(tree._id, {
-      root: root.subtrees[0],
-    });
+  const root = await collapseRoot(ctx.db, tree.root);
+  if (root !== tree.root) {
+    await ctx.db.patch(tree._id, { root });
+  }
+}
+
+/**
+ * Puts `item` at `key` in the tree rooted at `root`, or removes whatever is
+ * there if it's null, and returns the tree's root afterwards. Unlike the
+ * handlers, it works on trees that aren't in use yet, like a resize's copy,
+ * so it doesn't track ids or log writes.
+ */
+export async function putInTree(
+  db: DatabaseWriter,
+  root: Id<"btreeNode">,
+  maxNodeSize: number,
+  key: Key,
+  item: Item | null,
+): Promise<Id<"btreeNode">> {
+  if ((await getInNode(db, root, key)) !== null) {
+    await deleteFromNode({ db }, maxNodeSize, root, key);
+    root = await collapseRoot(db, root);
+  }
+  if (item !== null) {
+    const pushUp = await insertIntoNode({ db }, maxNodeSize, root, item);
+    if (pushUp) {
+      root = await splitRoot(db, pushUp);
+    }
+  }
+  return root;
+}
+
+/**
+ * Creates a new root above a root that split, and returns it.
+ */
+async function splitRoot(db: DatabaseWriter, pushUp: PushUp) {
+  return await db.insert("btreeNode", {
+    items: [pushUp.item],
+    subtrees: [pushUp.leftSubtree, pushUp.rightSubtree],
+    aggregate: accumulate([
+      pushUp.leftAggregate,
+      itemAggregate(pushUp.item),
+      pushUp.rightAggregate,
+    ]),
+  });
+}
+
+/**
+ * Replaces a root left with no items by its only child, and returns the
+ * root afterwards.
+ */
+async function collapseRoot(db: DatabaseWriter, root: Id<"btreeNode">) {
+  const n = (await db.get(root))!;
+  if (n.items.length === 0 && n.subtrees.length === 1) {
+    log(`collapsing root ${n._id} because its only child is ${n.subtrees[0]}`);
     // Delete the old empty root.
-    await ctx.db.delete(root._id);
+    await db.delete(n._id);
+    return n.subtrees[0];
+  }
+  return root;
+}
+
+/**
+ * Records that `key` changed while the tree is being resized, so the resized
+ * copy can pick up the change. See resize.ts.
+ */
+async function logResizeWrite(
+  db: DatabaseWriter,
+  tree: Doc<"btree">,
+  key: Key,
+) {
+  if (tree.resizing) {
+    await db.insert("resizeWrites", {
+      index: tree.index,
+      namespace: tree.namespace,
+      key,
+    });
   }
 }
 
 export const validate = query({
-  args: { namespace: v.optional(v.any()) },
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
   handler: validateTree,
 });
 
@@ -120,34 +241,37 @@ export const validate = query({
  */
 export async function validateTree(
   ctx: { db: DatabaseReader },
-  args: { namespace?: Namespace },
+  args: { namespace?: Namespace; index?: Index },
 ) {
-  const tree = await getTree(ctx.db, args.namespace);
+  const tree = await getTree(ctx.db, args.namespace, args.index);
   if (!tree) {
     return;
   }
-  await validateNode(ctx, args.namespace, tree.root, 0);
+  await validateNode(ctx, args.namespace, args.index, tree.root, 0);
 }
 
 type ValidationResult = {
   min?: Key;
   max?: Key;
   height: number;
+  aggregate: Aggregate;
 };
 
 async function MAX_NODE_SIZE(
   ctx: { db: DatabaseReader },
   namespace: Namespace,
+  index: Index,
 ) {
-  const tree = await mustGetTree(ctx.db, namespace);
+  const tree = await mustGetTree(ctx.db, namespace, index);
   return tree.maxNodeSize;
 }
 
 async function MIN_NODE_SIZE(
   ctx: { db: DatabaseReader },
   namespace: Namespace,
+  index: Index,
 ) {
-  const max = await MAX_NODE_SIZE(ctx, namespace);
+  const max = await MAX_NODE_SIZE(ctx, namespace, index);
   if (max % 2 !== 0 || max < 4) {
     throw new Error("MAX_NODE_SIZE must be even and at least 4");
   }
@@ -160,6 +284,7 @@ async function MIN_NODE_SIZE(
 async function validateNode(
   ctx: { db: DatabaseReader },
   namespace: Namespace,
+  index: Index,
   node: Id<"btreeNode">,
   depth: number,
 ): Promise<ValidationResult> {
@@ -168,11 +293,14 @@ async function validateNode(
     throw new ConvexError(`missing node ${node}`);
   }
   // Check max node size invariant.
-  if (n.items.length > (await MAX_NODE_SIZE(ctx, namespace))) {
+  if (n.items.length > (await MAX_NODE_SIZE(ctx, namespace, index))) {
     throw new ConvexError(`node ${node} exceeds max size`);
   }
   // Check min node size invariant (except for root).
-  if (depth > 0 && n.items.length < (await MIN_NODE_SIZE(ctx, namespace))) {
+  if (
+    depth > 0 &&
+    n.items.length < (await MIN_NODE_SIZE(ctx, namespace, index))
+  ) {
     throw new ConvexError(`non-root node ${node} has less than min-size`);
   }
   // Check that number of keys + 1 == number of subtrees (if not a leaf).
@@ -191,7 +319,7 @@ async function validateNode(
   // Recursively validate subtrees.
   const validatedSubtrees = await Promise.all(
     n.subtrees.map((subtree) =>
-      validateNode(ctx, namespace, subtree, depth + 1),
+      validateNode(ctx, namespace, index, subtree, depth + 1),
     ),
   );
   for (let i = 0; i < n.subtrees.length; i++) {
@@ -217,6 +345,17 @@ async function validateNode(
       throw new ConvexError(`subtree ${i} has different height from others`);
     }
   }
+  // The stored aggregate matches the items and subtrees.
+  const computedAggregate = accumulate([
+    ...n.items.map((item) => itemAggregate(item as Item)),
+    ...validatedSubtrees.map((s) => s.aggregate),
+  ]);
+  if (
+    n.aggregate !== undefined &&
+    !aggregatesEqual(computedAggregate, n.aggregate)
+  ) {
+    throw new ConvexError(`node ${node} aggregate does not match contents`);
+  }
 
   // Determine min and max keys for this subtree.
   const max =
@@ -226,7 +365,7 @@ async function validateNode(
   const min =
     validatedSubtrees.length > 0 ? validatedSubtrees[0].min : n.items[0]?.k;
   const height = validatedSubtrees.length > 0 ? 1 + heights[0] : 0;
-  return { min, max, height };
+  return { min, max, height, aggregate: computedAggregate };
 }
 
 type WithinBounds =
@@ -296,20 +435,289 @@ async function filterBetween(
   return (await Promise.all(included)).flat(1);
 }
 
+export const aggregateBetween = query({
+  args: {
+    k1: v.optional(v.any()),
+    k2: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: aggregate,
+  handler: aggregateBetweenHandler,
+});
+
+export const aggregateBetweenBatch = query({
+  args: {
+    queries: v.array(
+      v.object({
+        k1: v.optional(v.any()),
+        k2: v.optional(v.any()),
+        namespace: v.optional(v.any()),
+        index: v.optional(v.string()),
+      }),
+    ),
+  },
+  returns: v.array(aggregate),
+  handler: async (ctx, { queries }) => {
+    return await Promise.all(
+      queries.map((query) => aggregateBetweenHandler(ctx, query)),
+    );
+  },
+});
+
+/**
+ * Aggregates all items between k1 and k2 (both exclusive, either optional).
+ * Reads O(log n) nodes because fully-contained subtrees contribute their
+ * stored aggregate without being traversed.
+ */
+export async function aggregateBetweenHandler(
+  ctx: { db: DatabaseReader },
+  args: { k1?: Key; k2?: Key; namespace?: Namespace; index?: Index },
+): Promise<Aggregate> {
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return EMPTY_AGGREGATE;
+  }
+  return await aggregateBetweenInNode(ctx.db, tree.root, args.k1, args.k2);
+}
+
+async function aggregateBetweenInNode(
+  db: DatabaseReader,
+  node: Id<"btreeNode">,
+  k1?: Key,
+  k2?: Key,
+): Promise<Aggregate> {
+  if (k1 === undefined && k2 === undefined) {
+    // Unbounded, so the node's own aggregate is the answer.
+    return await nodeAggregate(db, (await db.get(node))!);
+  }
+  const filtered = await filterBetween(db, node, k1, k2);
+  const aggregates = await Promise.all(
+    filtered.map(async (included) =>
+      included.type === "item"
+        ? itemAggregate(included.item)
+        : await nodeAggregate(db, (await db.get(included.subtree))!),
+    ),
+  );
+  return accumulate(aggregates);
+}
+
+export const atOffset = query({
+  args: {
+    offset: v.number(),
+    k1: v.optional(v.any()),
+    k2: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: itemValidator,
+  handler: atOffsetHandler,
+});
+
+export const atOffsetBatch = query({
+  args: {
+    queries: v.array(
+      v.object({
+        offset: v.number(),
+        k1: v.optional(v.any()),
+        k2: v.optional(v.any()),
+        namespace: v.optional(v.any()),
+        index: v.optional(v.string()),
+      }),
+    ),
+  },
+  returns: v.array(itemValidator),
+  handler: async (ctx, { queries }) => {
+    return await Promise.all(
+      queries.map((query) => atOffsetHandler(ctx, query)),
+    );
+  },
+});
+
+/**
+ * Finds the item at the given offset among items between k1 and k2.
+ * Negative offsets count back from the last item, so -1 is the max.
+ */
+export async function atOffsetHandler(
+  ctx: { db: DatabaseReader },
+  args: {
+    offset: number;
+    k1?: Key;
+    k2?: Key;
+    namespace?: Namespace;
+    index?: Index;
+  },
+): Promise<Item> {
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    throw new ConvexError({
+      code: "OFFSET_OUT_OF_RANGE",
+      message: `offset ${args.offset} is out of range for an empty tree`,
+    });
+  }
+  if (args.offset < 0) {
+    return await atOffsetInNode(
+      ctx.db,
+      tree.root,
+      -args.offset - 1,
+      "desc",
+      args.k1,
+      args.k2,
+    );
+  }
+  return await atOffsetInNode(
+    ctx.db,
+    tree.root,
+    args.offset,
+    "asc",
+    args.k1,
+    args.k2,
+  );
+}
+
+/**
+ * Walks the items and subtrees between k1 and k2 in the given order,
+ * skipping whole subtrees by their stored count until the offset lands
+ * inside one.
+ */
+async function atOffsetInNode(
+  db: DatabaseReader,
+  node: Id<"btreeNode">,
+  offset: number,
+  order: "asc" | "desc",
+  k1?: Key,
+  k2?: Key,
+): Promise<Item> {
+  const filtered = await filterBetween(db, node, k1, k2);
+  if (order === "desc") {
+    filtered.reverse();
+  }
+  for (const included of filtered) {
+    if (included.type === "item") {
+      if (offset === 0) {
+        return included.item;
+      }
+      offset--;
+    } else {
+      const { count } = await nodeAggregate(
+        db,
+        (await db.get(included.subtree))!,
+      );
+      if (offset < count) {
+        return await atOffsetInNode(db, included.subtree, offset, order);
+      }
+      offset -= count;
+    }
+  }
+  throw new ConvexError({
+    code: "OFFSET_OUT_OF_RANGE",
+    message: `offset is ${offset} past the last item in node ${node}`,
+  });
+}
+
 export async function getHandler(
   ctx: { db: DatabaseReader },
-  args: { key: Key; namespace?: Namespace },
+  args: { key: Key; namespace?: Namespace; index?: Index },
 ) {
-  const tree = (await getTree(ctx.db, args.namespace))!;
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return null;
+  }
   return await getInNode(ctx.db, tree.root, args.key);
 }
 
 export const get = query({
-  args: { key: v.any(), namespace: v.optional(v.any()) },
+  args: {
+    key: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
   returns: v.union(v.null(), itemValidator),
   handler: getHandler,
 });
 
+/**
+ * Looks up the item with the given id, in a tree that tracks ids.
+ */
+export async function getByIdHandler(
+  ctx: { db: DatabaseReader },
+  args: { id: Value; namespace?: Namespace; index?: Index },
+): Promise<Item | null> {
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return null;
+  }
+  if (!tree.trackIds) {
+    throw new ConvexError({
+      code: "IDS_NOT_TRACKED",
+      message: "the tree doesn't track ids; enable trackIds with clear",
+    });
+  }
+  return await findById(ctx.db, tree, args.id);
+}
+
+export const getById = query({
+  args: {
+    id: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), itemValidator),
+  handler: getByIdHandler,
+});
+
+async function getItemId(db: DatabaseReader, tree: Doc<"btree">, id: Value) {
+  return await db
+    .query("itemIds")
+    .withIndex("by_index_namespace_tree_id", (q) =>
+      q
+        .eq("index", tree.index)
+        .eq("namespace", tree.namespace)
+        .eq("tree", tree._id)
+        .eq("id", id),
+    )
+    .unique();
+}
+
+async function findById(
+  db: DatabaseReader,
+  tree: Doc<"btree">,
+  id: Value,
+): Promise<Item | null> {
+  const itemId = await getItemId(db, tree, id);
+  if (itemId === null) {
+    return null;
+  }
+  const item = await getInNode(db, tree.root, itemId.key);
+  // The row may have outlived its item.
+  if (item === null || compareValues(item.v, id) !== 0) {
+    return null;
+  }
+  return item;
+}
+
+async function recordId(db: DatabaseWriter, tree: Doc<"btree">, item: Item) {
+  const itemId = await getItemId(db, tree, item.v);
+  if (itemId) {
+    await db.patch(itemId._id, { key: item.k });
+  } else {
+    await db.insert("itemIds", {
+      index: tree.index,
+      namespace: tree.namespace,
+      tree: tree._id,
+      id: item.v,
+      key: item.k,
+    });
+  }
+}
+
+async function forgetId(db: DatabaseWriter, tree: Doc<"btree">, item: Item) {
+  const itemId = await getItemId(db, tree, item.v);
+  if (itemId && compareKeys(itemId.key, item.k) === 0) {
+    await db.delete(itemId._id);
+  }
+}
+
 /**
  * Recursively searches for a key in a node and its subtrees.
  */
@@ -339,17 +747,62 @@ async function getInNode(
   return await getInNode(db, n.subtrees[i], key);
 }
 
+/**
+ * Recursively searches for a key and replaces its item with `update(item)`,
+ * which must keep the key. Returns the change in the item's summand, so
+ * each node on the path can adjust its aggregate, or null if not found.
+ */
+async function updateInNode(
+  db: DatabaseWriter,
+  node: Id<"btreeNode">,
+  key: Key,
+  update: (item: Item) => Item,
+): Promise<number | null> {
+  const n = (await db.get(node))!;
+  // Read before the subtree changes, in case it has to be computed.
+  const aggregate = await nodeAggregate(db, n);
+  let i = 0;
+  for (; i < n.items.length; i++) {
+    const compare = compareKeys(key, n.items[i].k);
+    if (compare === -1) {
+      break;
+    }
+    if (compare === 0) {
+      const item = n.items[i] as Item;
+      const updated = update(item);
+      const delta = itemAggregate(updated).sum - itemAggregate(item).sum;
+      await db.patch(node, {
+        items: [...n.items.slice(0, i), updated, ...n.items.slice(i + 1)],
+        aggregate: add(aggregate, { count: 0, sum: delta }),
+      });
+      return delta;
+    }
+  }
+  if (n.subtrees.length === 0) {
+    return null;
+  }
+  const delta = await updateInNode(db, n.subtrees[i], key, update);
+  if (delta) {
+    await db.patch(node, {
+      aggregate: add(aggregate, { count: 0, sum: delta }),
+    });
+  }
+  return delta;
+}
+
 /**
  * Recursively deletes a key from a node.
  * Handles rebalancing (rotation and merging) if a subtree becomes deficient.
  */
 async function deleteFromNode(
   ctx: { db: DatabaseWriter },
-  namespace: Namespace,
+  maxNodeSize: number,
   node: Id<"btreeNode">,
   key: Key,
 ): Promise<Item | null> {
   let n = (await ctx.db.get(node))!;
+  // Read before the subtree changes, in case it has to be computed.
+  const aggregate = await nodeAggregate(ctx.db, n);
   let foundItem: null | Item = null;
   let i = 0;
 
@@ -369,6 +822,7 @@ async function deleteFromNode(
         // if this is a leaf node, just delete the key
         await ctx.db.patch(node, {
           items: [...n.items.slice(0, i), ...n.items.slice(i + 1)],
+          aggregate: subtract(aggregate, itemAggregate(n.items[i] as Item)),
         });
         return n.items[i] as Item;
       }
@@ -401,17 +855,22 @@ async function deleteFromNode(
   }
 
   // Recursive delete from the child.
-  const deleted = await deleteFromNode(ctx, namespace, n.subtrees[i], key);
+  const deleted = await deleteFromNode(ctx, maxNodeSize, n.subtrees[i], key);
   if (!deleted) {
     return null;
   }
   if (!foundItem) {
     foundItem = deleted;
   }
+  // The item removed from this subtree is the original key's item, even if
+  // a predecessor was moved up to take its place.
+  await ctx.db.patch(node, {
+    aggregate: subtract(aggregate, itemAggregate(foundItem)),
+  });
 
   // Rebalancing: Check if the subtree at index i is too small.
   const deficientSubtree = (await ctx.db.get(n.subtrees[i]))!;
-  const minNodeSize = await MIN_NODE_SIZE(ctx, namespace);
+  const minNodeSize = maxNodeSize / 2;
 
   if (deficientSubtree.items.length < minNodeSize) {
     log(`deficient subtree ${deficientSubtree._id}`);
@@ -431,6 +890,10 @@ async function deleteFromNode(
           )
           : null;
 
+        const grandchildAggregate = grandchild
+          ? await nodeAggregate(ctx.db, grandchild)
+          : EMPTY_AGGREGATE;
+
         // Move separator from parent to deficient subtree
         // Move rightmost item of left sibling to parent
         await ctx.db.patch(deficientSubtree._id, {
@@ -438,12 +901,26 @@ async function deleteFromNode(
           subtrees: grandchild
             ? [grandchild._id, ...deficientSubtree.subtrees]
             : [],
+          aggregate: accumulate([
+            await nodeAggregate(ctx.db, deficientSubtree),
+            itemAggregate(n.items[i - 1] as Item),
+            grandchildAggregate,
+          ]),
         });
         await ctx.db.patch(leftSibling._id, {
           items: leftSibling.items.slice(0, leftSibling.items.length - 1),
           subtrees: grandchild
             ? leftSibling.subtrees.slice(0, leftSibling.subtrees.length - 1)
             : [],
+          aggregate: subtract(
+            await nodeAggregate(ctx.db, leftSibling),
+            add(
+              itemAggregate(
+                leftSibling.items[leftSibling.items.length - 1] as Item,
+              ),
+              grandchildAggregate,
+            ),
+          ),
         });
         await ctx.db.patch(node, {
           items: [
@@ -467,6 +944,10 @@ async function deleteFromNode(
           ? await ctx.db.get(rightSibling.subtrees[0])
           : null;
 
+        const grandchildAggregate = grandchild
+          ? await nodeAggregate(ctx.db, grandchild)
+          : EMPTY_AGGREGATE;
+
         // Move separator from parent to deficient subtree
         // Move leftmost item of right sibling to parent
         await ctx.db.patch(deficientSubtree._id, {
@@ -474,10 +955,22 @@ async function deleteFromNode(
           subtrees: grandchild
             ? [...deficientSubtree.subtrees, grandchild._id]
             : [],
+          aggregate: accumulate([
+            await nodeAggregate(ctx.db, deficientSubtree),
+            itemAggregate(n.items[i] as Item),
+            grandchildAggregate,
+          ]),
         });
         await ctx.db.patch(rightSibling._id, {
           items: rightSibling.items.slice(1),
           subtrees: grandchild ? rightSibling.subtrees.slice(1) : [],
+          aggregate: subtract(
+            await nodeAggregate(ctx.db, rightSibling),
+            add(
+              itemAggregate(rightSibling.items[0] as Item),
+              grandchildAggregate,
+            ),
+          ),
         });
         await ctx.db.patch(node, {
           items: [
@@ -519,6 +1012,11 @@ async function mergeNodes(
   await db.patch(left._id, {
     items: [...left.items, parent.items[leftIndex], ...right.items],
     subtrees: [...left.subtrees, ...right.subtrees],
+    aggregate: accumulate([
+      await nodeAggregate(db, left),
+      itemAggregate(parent.items[leftIndex] as Item),
+      await nodeAggregate(db, right),
+    ]),
   });
 
   // Remove separator and right sibling pointer from parent
@@ -555,6 +1053,8 @@ async function findMax(
 type PushUp = {
   leftSubtree: Id<"btreeNode">;
   rightSubtree: Id<"btreeNode">;
+  leftAggregate: Aggregate;
+  rightAggregate: Aggregate;
   item: Item;
 };
 
@@ -564,12 +1064,14 @@ type PushUp = {
  */
 async function insertIntoNode(
   ctx: { db: DatabaseWriter },
-  namespace: Namespace,
+  maxNodeSize: number,
   node: Id<"btreeNode">,
   item: Item,
 ): Promise<PushUp | null> {
   // 1. Load the current node from the database
   const n = (await ctx.db.get(node))!;
+  // Read before the subtree changes, in case it has to be computed.
+  const aggregate = await nodeAggregate(ctx.db, n);
 
   // 2. Find the correct index 'i' where the new item should go
   // We iterate until we find a key in the node that is greater than our item's key.
@@ -592,7 +1094,7 @@ async function insertIntoNode(
     // The child at index 'i' covers the range (-inf, n.items[i]) or (n.items[i-1], n.items[i]).
 
     // Recursively insert into the child
-    const pushUp = await insertIntoNode(ctx, namespace, n.subtrees[i], item);
+    const pushUp = await insertIntoNode(ctx, maxNodeSize, n.subtrees[i], item);
 
     // If the child split and pushed an item up...
     if (pushUp) {
@@ -609,20 +1111,23 @@ async function insertIntoNode(
         ],
       });
     }
-    // If pushUp is null, the child absorbed the item without splitting, so we do nothing.
+    // Either way, this subtree now contains the new item.
+    await ctx.db.patch(node, {
+      aggregate: add(aggregate, itemAggregate(item)),
+    });
   } else {
     // CASE B: Leaf Node
     // Just insert the item directly into the items array at index 'i'.
     await ctx.db.patch(node, {
       items: [...n.items.slice(0, i), item, ...n.items.slice(i)],
+      aggregate: add(aggregate, itemAggregate(item)),
     });
   }
 
   // 4. Check for Overflow (The "Push Up" Mechanism)
   // We reload the node to get the latest state (with the new item inserted).
   const newN = (await ctx.db.get(node))!;
-  const maxNodeSize = await MAX_NODE_SIZE(ctx, namespace);
-  const minNodeSize = await MIN_NODE_SIZE(ctx, namespace);
+  const minNodeSize = maxNodeSize / 2;
 
   // If the node is now too big...
   if (newN.items.length > maxNodeSize) {
@@ -640,6 +1145,22 @@ async function insertIntoNode(
     // We move the right half to a new sibling node.
     // The middle item (at minNodeSize) is "pushed up".
 
+    // The right half's aggregate is computed from its contents, and the
+    // left half gets whatever remains of this node's aggregate.
+    const rightItems = newN.items.slice(minNodeSize + 1);
+    const rightSubtrees = newN.subtrees.length
+      ? newN.subtrees.slice(minNodeSize + 1)
+      : [];
+    const rightAggregate = await computeAggregate(
+      ctx.db,
+      rightItems as Item[],
+      rightSubtrees,
+    );
+    const leftAggregate = subtract(
+      await nodeAggregate(ctx.db, newN),
+      add(rightAggregate, itemAggregate(newN.items[minNodeSize] as Item)),
+    );
+
     // 4a. Update current node (Left Half)
     // It keeps items [0 ... minNodeSize-1]
     // It keeps subtrees [0 ... minNodeSize]
@@ -648,16 +1169,16 @@ async function insertIntoNode(
       subtrees: newN.subtrees.length
         ? newN.subtrees.slice(0, minNodeSize + 1)
         : [],
+      aggregate: leftAggregate,
     });
 
     // 4b. Create new sibling node (Right Half)
     // It gets items [minNodeSize+1 ... end]
     // It gets subtrees [minNodeSize+1 ... end]
     const splitN = await ctx.db.insert("btreeNode", {
-      items: newN.items.slice(minNodeSize + 1),
-      subtrees: newN.subtrees.length
-        ? newN.subtrees.slice(minNodeSize + 1)
-        : [],
+      items: rightItems,
+      subtrees: rightSubtrees,
+      aggregate: rightAggregate,
     });
 
     // 4c. Return the PushUp object to the parent
@@ -665,6 +1186,8 @@ async function insertIntoNode(
       item: newN.items[minNodeSize] as Item, // The middle item acts as the separator
       leftSubtree: node,             // The current node (now smaller)
       rightSubtree: splitN,          // The new sibling node
+      leftAggregate,
+      rightAggregate,
     };
   }
 
@@ -672,19 +1195,116 @@ async function insertIntoNode(
   return null;
 }
 
-function compareKeys(k1: Key, k2: Key) {
+export function compareKeys(k1: Key, k2: Key) {
   return compareValues(k1, k2);
 }
 
-export async function getTree(db: DatabaseReader, namespace: Namespace) {
+/**
+ * Builds an item, checking that its summand is finite, since sums couldn't
+ * recover from an infinite or NaN one, and that its payload fits within
+ * MAX_PAYLOAD_SIZE bytes once encoded as UTF-8 JSON.
+ */
+export function makeItem(
+  key: Key,
+  value: Value,
+  summand?: number,
+  payload?: ConvexValue,
+): Item {
+  if (summand !== undefined && !Number.isFinite(summand)) {
+    throw new ConvexError({
+      code: "INVALID_SUMMAND",
+      message: `summand for key ${p(key)} must be a finite number, got ${summand}`,
+    });
+  }
+  if (payload === undefined) {
+    return { k: key, v: value, s: summand ?? 0 };
+  }
+  const size = new TextEncoder().encode(
+    JSON.stringify(convexToJson(payload)),
+  ).length;
+  if (size > MAX_PAYLOAD_SIZE) {
+    throw new ConvexError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: `payload for key ${p(key)} is ${size} bytes, over the limit of ${MAX_PAYLOAD_SIZE}`,
+    });
+  }
+  return { k: key, v: value, s: summand ?? 0, p: payload };
+}
+
+const EMPTY_AGGREGATE: Aggregate = { count: 0, sum: 0 };
+
+function itemAggregate(item: Item): Aggregate {
+  return { count: 1, sum: item.s ?? 0 };
+}
+
+function add(a: Aggregate, b: Aggregate): Aggregate {
+  return { count: a.count + b.count, sum: a.sum + b.sum };
+}
+
+function subtract(a: Aggregate, b: Aggregate): Aggregate {
+  return { count: a.count - b.count, sum: a.sum - b.sum };
+}
+
+function accumulate(aggregates: Aggregate[]): Aggregate {
+  return aggregates.reduce(add, EMPTY_AGGREGATE);
+}
+
+/**
+ * Computes a node's aggregate from its items and the stored aggregates of
+ * its subtrees.
+ */
+export async function computeAggregate(
+  db: DatabaseReader,
+  items: Item[],
+  subtrees: Id<"btreeNode">[],
+): Promise<Aggregate> {
+  return accumulate([
+    ...items.map(itemAggregate),
+    ...(await Promise.all(
+      subtrees.map(
+        async (subtree) => await nodeAggregate(db, (await db.get(subtree))!),
+      ),
+    )),
+  ]);
+}
+
+/**
+ * A node's aggregate. Nodes written before aggregates were maintained don't
+ * store one, so it's computed from their contents instead, and stored the
+ * next time a write changes the node.
+ */
+export async function nodeAggregate(
+  db: DatabaseReader,
+  n: Doc<"btreeNode">,
+): Promise<Aggregate> {
+  return n.aggregate ?? (await computeAggregate(db, n.items, n.subtrees));
+}
+
+function aggregatesEqual(a: Aggregate, b: Aggregate): boolean {
+  // Sums are maintained incrementally, so allow for floating point drift.
+  const tolerance = 1e-9 * Math.max(1, Math.abs(a.sum), Math.abs(b.sum));
+  return a.count === b.count && Math.abs(a.sum - b.sum) <= tolerance;
+}
+
+export async function getTree(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
   return await db
     .query("btree")
-    .withIndex("by_namespace", (q) => q.eq("namespace", namespace))
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
     .unique();
 }
 
-export async function mustGetTree(db: DatabaseReader, namespace: Namespace) {
-  const tree = await getTree(db, namespace);
+export async function mustGetTree(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  const tree = await getTree(db, namespace, index);
   if (!tree) {
     throw new Error("btree not initialized");
   }
@@ -694,31 +1314,41 @@ export async function mustGetTree(db: DatabaseReader, namespace: Namespace) {
 export async function getOrCreateTree(
   db: DatabaseWriter,
   namespace: Namespace,
+  index: Index,
   maxNodeSize?: number,
+  trackIds?: boolean,
 ): Promise<Doc<"btree">> {
-  const originalTree = await getTree(db, namespace);
+  const originalTree = await getTree(db, namespace, index);
   if (originalTree) {
     return originalTree;
   }
   const root = await db.insert("btreeNode", {
     items: [],
     subtrees: [],
+    aggregate: EMPTY_AGGREGATE,
   });
   const effectiveMaxNodeSize =
     maxNodeSize ??
-    (await MAX_NODE_SIZE({ db }, undefined)) ??
+    (await MAX_NODE_SIZE({ db }, undefined, index)) ??
     DEFAULT_MAX_NODE_SIZE;
+  // New namespaces track ids if the default namespace does.
+  const effectiveTrackIds =
+    trackIds ?? (await getTree(db, undefined, index))?.trackIds;
   const id = await db.insert("btree", {
     root,
     maxNodeSize: effectiveMaxNodeSize,
+    trackIds: effectiveTrackIds,
+    index,
     namespace,
   });
   const newTree = await db.get(id);
   // Check the maxNodeSize is valid.
-  await MIN_NODE_SIZE({ db }, namespace);
+  await MIN_NODE_SIZE({ db }, namespace, index);
   return newTree!;
 }
 
+// Superseded by deletion jobs (see deletion.ts), but kept so that deletions
+// scheduled before them still run.
 export const deleteTreeNodes = internalMutation({
   args: { node: v.id("btreeNode") },
   returns: v.null(),
@@ -741,6 +1371,7 @@ export const paginate = query({
     k1: v.optional(v.any()),
     k2: v.optional(v.any()),
     namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
   returns: v.object({
     page: v.array(itemValidator),
@@ -763,13 +1394,14 @@ export async function paginateHandler(
     k1?: Key;
     k2?: Key;
     namespace?: Namespace;
+    index?: Index;
   },
 ) {
-  const tree = await getTree(ctx.db, args.namespace);
+  const tree = await getTree(ctx.db, args.namespace, args.index);
   if (tree === null) {
     return { page: [], cursor: "", isDone: true };
   }
-  return await paginateInNode(
+  const result = await paginateInNode(
     ctx.db,
     tree.root,
     args.limit,
@@ -778,6 +1410,327 @@ export async function paginateHandler(
     args.k1,
     args.k2,
   );
+  if (!tree.buffered || args.cursor === "") {
+    return result;
+  }
+  return await withPendingWrites(ctx.db, tree, args, result);
+}
+
+// Bounds the pending writes read for one page of a buffered tree.
+const PENDING_WRITES_PER_PAGE = 100;
+
+/**
+ * Overlays a buffered tree's pending writes on a page read from the tree.
+ * The page covers everything after the cursor up to its last item, or to
+ * the end of the range if it's done, so pending writes there belong on it.
+ * If there are more of them than one read takes, the page stops at the last
+ * one read.
+ */
+async function withPendingWrites(
+  db: DatabaseReader,
+  tree: Doc<"btree">,
+  args: {
+    limit: number;
+    order: "asc" | "desc";
+    cursor?: string;
+    k1?: Key;
+    k2?: Key;
+  },
+  result: { page: Item[]; cursor: string; isDone: boolean },
+) {
+  const direction = args.order === "asc" ? 1 : -1;
+  const compare = (a: Key, b: Key) => direction * compareKeys(a, b);
+  const start =
+    args.cursor !== undefined
+      ? jsonToConvex(JSON.parse(args.cursor))
+      : direction === 1
+        ? args.k1
+        : args.k2;
+  const end = result.isDone
+    ? direction === 1
+      ? args.k2
+      : args.k1
+    : result.page[result.page.length - 1].k;
+  const pending = await getPendingWrites(db, tree, args.order, start, {
+    key: end,
+    inclusive: !result.isDone,
+  });
+  if (pending.length === 0) {
+    return result;
+  }
+  const encode = (key: Key) => JSON.stringify(convexToJson(key));
+  let { page: treePage, cursor, isDone } = result;
+  if (pending.length === PENDING_WRITES_PER_PAGE) {
+    const last = pending[pending.length - 1].key;
+    treePage = treePage.filter((item) => compare(item.k, last) <= 0);
+    cursor = encode(last);
+    isDone = false;
+  }
+  const written = new Set(pending.map(({ key }) => encode(key)));
+  const page = [
+    ...treePage.filter((item) => !written.has(encode(item.k))),
+    ...pending.flatMap(({ item }) => (item === null ? [] : [item])),
+  ].sort((a, b) => compare(a.k, b.k));
+  if (page.length > args.limit) {
+    page.length = args.limit;
+    return {
+      page,
+      cursor: encode(page[page.length - 1].k),
+      isDone: false,
+    };
+  }
+  return { page, cursor, isDone };
+}
+
+/**
+ * Up to PENDING_WRITES_PER_PAGE of a buffered tree's pending writes, in
+ * `order`, after `start` and up to `end`. A missing key is unbounded. Each
+ * key has at most one pending write, since `bufferWrite` replaces earlier
+ * ones.
+ */
+export async function getPendingWrites(
+  db: DatabaseReader,
+  tree: Doc<"btree">,
+  order: "asc" | "desc",
+  start: Key | undefined,
+  end: { key: Key | undefined; inclusive: boolean },
+): Promise<{ key: Key; item: Item | null }[]> {
+  const after = { key: start, inclusive: false };
+  const [lower, upper] = order === "asc" ? [after, end] : [end, after];
+  const writes = await db
+    .query("writeBuffer")
+    .withIndex("by_index_namespace_tree_key", (q) => {
+      const eq = q
+        .eq("index", tree.index)
+        .eq("namespace", tree.namespace)
+        .eq("tree", tree._id);
+      const from =
+        lower.key === undefined
+          ? eq
+          : lower.inclusive
+            ? eq.gte("key", lower.key)
+            : eq.gt("key", lower.key);
+      return upper.key === undefined
+        ? from
+        : upper.inclusive
+          ? from.lte("key", upper.key)
+          : from.lt("key", upper.key);
+    })
+    .order(order)
+    .take(PENDING_WRITES_PER_PAGE);
+  return writes.map((write) => ({
+    key: write.key,
+    item: write.item as Item | null,
+  }));
+}
+
+const range = v.object({
+  k1: v.optional(v.any()),
+  k2: v.optional(v.any()),
+});
+
+type Range = { k1?: Key; k2?: Key };
+
+export const paginateRanges = query({
+  args: {
+    ranges: v.array(range),
+    limit: v.number(),
+    order: v.union(v.literal("asc"), v.literal("desc")),
+    cursor: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.object({
+    page: v.array(itemValidator),
+    cursor: v.string(),
+    isDone: v.boolean(),
+  }),
+  handler: paginateRangesHandler,
+});
+
+/**
+ * Paginates over the union of several ranges, as one ordered stream.
+ * Overlapping ranges are merged first, so each item is returned once.
+ * Like `paginate`, the cursor is the last key returned, so it resumes
+ * wherever in the ranges that key falls, and a buffered tree's pending
+ * writes are merged into each range.
+ */
+export async function paginateRangesHandler(
+  ctx: { db: DatabaseReader },
+  args: {
+    ranges: Range[];
+    limit: number;
+    order: "asc" | "desc";
+    cursor?: string;
+    namespace?: Namespace;
+    index?: Index;
+  },
+) {
+  if (args.cursor !== undefined && args.cursor.length === 0) {
+    return { page: [], cursor: "", isDone: true };
+  }
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return { page: [], cursor: "", isDone: true };
+  }
+  const after =
+    args.cursor === undefined
+      ? undefined
+      : jsonToConvex(JSON.parse(args.cursor));
+  const ranges = mergeRanges(args.ranges);
+  if (args.order === "desc") {
+    ranges.reverse();
+  }
+  const page: Item[] = [];
+  for (let { k1, k2 } of ranges) {
+    if (after !== undefined) {
+      // Skip past the cursor.
+      if (args.order === "asc") {
+        if (k2 !== undefined && compareKeys(k2, after) <= 0) {
+          continue;
+        }
+        if (k1 === undefined || compareKeys(k1, after) < 0) {
+          k1 = after;
+        }
+      } else {
+        if (k1 !== undefined && compareKeys(k1, after) >= 0) {
+          continue;
+        }
+        if (k2 === undefined || compareKeys(k2, after) > 0) {
+          k2 = after;
+        }
+      }
+    }
+    const limit = args.limit - page.length;
+    let result = await paginateInNode(
+      ctx.db,
+      tree.root,
+      limit,
+      args.order,
+      undefined,
+      k1,
+      k2,
+    );
+    if (tree.buffered) {
+      result = await withPendingWrites(
+        ctx.db,
+        tree,
+        { limit, order: args.order, k1, k2 },
+        result,
+      );
+    }
+    page.push(...result.page);
+    if (!result.isDone) {
+      return { page, cursor: result.cursor, isDone: false };
+    }
+    if (page.length >= args.limit) {
+      // The page is full, but a later range may have more.
+      return {
+        page,
+        cursor: JSON.stringify(convexToJson(page[page.length - 1].k)),
+        isDone: false,
+      };
+    }
+  }
+  return { page, cursor: "", isDone: true };
+}
+
+/**
+ * Sorts ranges by lower bound and merges any that overlap, so the result is
+ * disjoint and in ascending order. A missing bound is unbounded.
+ */
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) =>
+    a.k1 === undefined ? -1 : b.k1 === undefined ? 1 : compareKeys(a.k1, b.k1),
+  );
+  const merged: Range[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (
+      last !== undefined &&
+      (last.k2 === undefined ||
+        range.k1 === undefined ||
+        compareKeys(range.k1, last.k2) <= 0)
+    ) {
+      if (
+        last.k2 !== undefined &&
+        (range.k2 === undefined || compareKeys(range.k2, last.k2) > 0)
+      ) {
+        last.k2 = range.k2;
+      }
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+export const around = query({
+  args: {
+    key: v.any(),
+    before: v.number(),
+    after: v.number(),
+    k1: v.optional(v.any()),
+    k2: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.object({
+    before: v.array(itemValidator),
+    after: v.array(itemValidator),
+  }),
+  handler: aroundHandler,
+});
+
+/**
+ * Gets the items closest to `key` on either side, within (k1, k2).
+ * `before` is in descending order and `after` in ascending order, so both
+ * start next to `key`. An item at `key` itself is in neither.
+ */
+export async function aroundHandler(
+  ctx: { db: DatabaseReader },
+  args: {
+    key: Key;
+    before: number;
+    after: number;
+    k1?: Key;
+    k2?: Key;
+    namespace?: Namespace;
+    index?: Index;
+  },
+) {
+  const tree = await getTree(ctx.db, args.namespace, args.index);
+  if (tree === null) {
+    return { before: [], after: [] };
+  }
+  const { key, k1, k2 } = args;
+  let before: Item[] = [];
+  if (args.before > 0 && (k1 === undefined || compareKeys(k1, key) < 0)) {
+    const end = k2 === undefined || compareKeys(key, k2) < 0 ? key : k2;
+    ({ page: before } = await paginateInNode(
+      ctx.db,
+      tree.root,
+      args.before,
+      "desc",
+      undefined,
+      k1,
+      end,
+    ));
+  }
+  let after: Item[] = [];
+  if (args.after > 0 && (k2 === undefined || compareKeys(key, k2) < 0)) {
+    const start = k1 === undefined || compareKeys(k1, key) < 0 ? key : k1;
+    ({ page: after } = await paginateInNode(
+      ctx.db,
+      tree.root,
+      args.after,
+      "asc",
+      undefined,
+      start,
+      k2,
+    ));
+  }
+  return { before, after };
 }
 
 /**
@@ -867,10 +1820,21 @@ export async function paginateInNode(
   };
 }
 
+const namespaceBound = v.object({
+  namespace: v.optional(v.any()),
+  inclusive: v.boolean(),
+});
+
 export const paginateNamespaces = query({
   args: {
     limit: v.number(),
     cursor: v.optional(v.string()),
+    index: v.optional(v.string()),
+    // only namespaces between lower and upper.
+    lower: v.optional(namespaceBound),
+    upper: v.optional(namespaceBound),
+    // only array namespaces that start with these elements.
+    prefix: v.optional(v.array(v.any())),
   },
   returns: v.object({
     page: v.array(v.any()),
@@ -880,9 +1844,26 @@ export const paginateNamespaces = query({
   handler: paginateNamespacesHandler,
 });
 
+type NamespaceBound = { namespace: Namespace; inclusive: boolean };
+
+/**
+ * Lists namespaces in the order of `compareValues`, which is also the order of
+ * the `by_index_namespace` index. Array namespaces that share a prefix are
+ * next to each other, so a prefix is a lower bound, and the page stops at
+ * the first namespace that doesn't match it.
+ * The cursor is the last namespace returned, wrapped in an array so that the
+ * undefined namespace can be encoded too.
+ */
 export async function paginateNamespacesHandler(
   ctx: { db: DatabaseReader },
-  args: { limit: number; cursor?: string },
+  args: {
+    limit: number;
+    cursor?: string;
+    index?: Index;
+    lower?: NamespaceBound;
+    upper?: NamespaceBound;
+    prefix?: ConvexValue[];
+  },
 ) {
   if (args.cursor === "endcursor") {
     return {
@@ -891,19 +1872,55 @@ export async function paginateNamespacesHandler(
       isDone: true,
     };
   }
-  let trees = [];
-  if (args.cursor === undefined) {
-    trees = await ctx.db.query("btree").withIndex("by_id").take(args.limit);
-  } else {
-    trees = await ctx.db
-      .query("btree")
-      .withIndex("by_id", (q) => q.gt("_id", args.cursor as Id<"btree">))
-      .take(args.limit);
+  const { prefix, upper } = args;
+  let lower = args.lower;
+  if (prefix !== undefined) {
+    lower = { namespace: prefix, inclusive: true };
+  }
+  if (args.cursor !== undefined) {
+    const [namespace] = jsonToConvex(JSON.parse(args.cursor)) as Namespace[];
+    lower = { namespace, inclusive: false };
   }
-  const isDone = trees.length < args.limit;
+  const trees = await ctx.db
+    .query("btree")
+    .withIndex("by_index_namespace", (q) => {
+      const eq = q.eq("index", args.index);
+      const from =
+        lower === undefined
+          ? eq
+          : lower.inclusive
+            ? eq.gte("namespace", lower.namespace)
+            : eq.gt("namespace", lower.namespace);
+      return upper === undefined
+        ? from
+        : upper.inclusive
+          ? from.lte("namespace", upper.namespace)
+          : from.lt("namespace", upper.namespace);
+    })
+    .take(args.limit);
+  let page = trees.map((t) => t.namespace);
+  let isDone = trees.length < args.limit;
+  if (prefix !== undefined) {
+    const matching = page.findIndex((n) => !hasPrefix(n, prefix));
+    if (matching !== -1) {
+      page = page.slice(0, matching);
+      isDone = true;
+    }
+  }
+  const last = page[page.length - 1];
   return {
-    page: trees.map((t) => t.namespace ?? null),
-    cursor: isDone ? "endcursor" : trees[trees.length - 1]._id,
+    page: page.map((n) => n ?? null),
+    cursor: isDone
+      ? "endcursor"
+      : JSON.stringify(last === undefined ? [] : [convexToJson(last)]),
     isDone,
   };
 }
+
+function hasPrefix(namespace: Namespace, prefix: ConvexValue[]) {
+  return (
+    Array.isArray(namespace) &&
+    namespace.length >= prefix.length &&
+    prefix.every((value, i) => compareValues(value, namespace[i]) === 0)
+  );
+}
@@ -0,0 +1,248 @@
+import { ConvexError, v } from "convex/values";
+import {
+  type DatabaseReader,
+  type DatabaseWriter,
+  internalMutation,
+  mutation,
+  type MutationCtx,
+} from "./_generated/server.js";
+import {
+  DEFAULT_MAX_NODE_SIZE,
+  deleteHandler,
+  getHandler,
+  getOrCreateTree,
+  getTree,
+  type Index,
+  insertHandler,
+  type Key,
+  type Namespace,
+  updateHandler,
+} from "./btree.js";
+import { getBulkLoad } from "./bulkLoad.js";
+import type { Doc } from "./_generated/dataModel.js";
+import type { Item } from "./schema.js";
+import { internal } from "./_generated/api.js";
+
+/**
+ * Buffered trees don't apply writes as they happen. Every write to a tree
+ * reads its root, and most write to it too, so frequent writes to one
+ * namespace conflict with each other. Instead, a buffered tree's writes are
+ * appended to the `writeBuffer` table, which concurrent writers can do
+ * without conflicting, and `flush` applies them to the tree in batches.
+ *
+ * Until they're flushed, `paginate` and `paginateRanges` merge pending
+ * writes into their pages. Other reads, like `aggregateBetween`, `atOffset`,
+ * `around` and `get`, only see flushed writes.
+ *
+ * Buffered writes aren't checked against the tree, so they're applied as
+ * upserts and deletes: inserting an existing key replaces its item, and
+ * deleting a missing key does nothing.
+ *
+ * Each pending write records the tree it was made to. When a tree is cleared
+ * or deleted, its pending writes are left for `flush` to delete, so there's
+ * no need to read them all at once.
+ */
+
+const FLUSH_BATCH_SIZE = 100;
+// Gives writes time to accumulate, so each flush applies more of them.
+const FLUSH_DELAY_MS = 1000;
+
+/**
+ * Turns buffering on or off for the namespace's tree, creating the tree if
+ * necessary. Turning it off applies a batch of pending writes right away. If
+ * that leaves any, writes stay buffered until `flush` has applied the rest.
+ * While it's on, writes that would throw because their key is missing or
+ * already present succeed instead, as described above.
+ */
+export const setBuffered = mutation({
+  args: {
+    buffered: v.boolean(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { buffered, namespace, index }) => {
+    const tree = await getOrCreateTree(
+      ctx.db,
+      namespace,
+      index,
+      DEFAULT_MAX_NODE_SIZE,
+    );
+    if (buffered && tree.trackIds) {
+      throw new ConvexError({
+        code: "BUFFERED_TRACKS_IDS",
+        message:
+          "buffered writes aren't checked against the tree, so can't keep ids unique",
+      });
+    }
+    if (buffered && (await getBulkLoad(ctx.db, namespace, index))) {
+      throw new ConvexError({
+        code: "BUFFERED_DURING_BULK_LOAD",
+        message:
+          "a bulk load will replace the tree under its pending writes; finish or cancel it first",
+      });
+    }
+    if (
+      buffered ||
+      !tree.buffered ||
+      (await flushBatch(ctx.db, namespace, index))
+    ) {
+      await ctx.db.patch(tree._id, { buffered, unbuffering: undefined });
+    } else {
+      // A flush is already scheduled for the remaining writes.
+      await ctx.db.patch(tree._id, { unbuffering: true });
+    }
+  },
+});
+
+/**
+ * Applies the oldest pending writes to the namespace's tree, scheduling
+ * itself again if there are more. Once there are none, the next write
+ * schedules a new flush.
+ */
+export const flush = internalMutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    if (!(await flushBatch(ctx.db, namespace, index))) {
+      await ctx.scheduler.runAfter(0, internal.buffer.flush, {
+        namespace,
+        index,
+      });
+      return;
+    }
+    const scheduled = await getScheduledFlush(ctx.db, namespace, index);
+    if (scheduled) {
+      await ctx.db.delete(scheduled._id);
+    }
+    const tree = await getTree(ctx.db, namespace, index);
+    if (tree?.unbuffering) {
+      await ctx.db.patch(tree._id, { buffered: false, unbuffering: undefined });
+    }
+  },
+});
+
+/**
+ * Whether writes to the namespace's tree should go through `bufferWrite`.
+ */
+export async function isBuffered(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return (await getTree(db, namespace, index))?.buffered === true;
+}
+
+/**
+ * Records a write to a buffered tree, to put `item` at `key` or, if it's
+ * null, to delete whatever is there, and schedules a flush to apply it
+ * unless one is already scheduled.
+ */
+export async function bufferWrite(
+  ctx: MutationCtx,
+  args: { key: Key; item: Item | null; namespace?: Namespace; index?: Index },
+) {
+  const tree = (await getTree(ctx.db, args.namespace, args.index))!;
+  // Only the latest write to a key matters, so keep one per key.
+  const previous = await ctx.db
+    .query("writeBuffer")
+    .withIndex("by_index_namespace_tree_key", (q) =>
+      q
+        .eq("index", args.index)
+        .eq("namespace", args.namespace)
+        .eq("tree", tree._id)
+        .eq("key", args.key),
+    )
+    .unique();
+  if (previous) {
+    await ctx.db.delete(previous._id);
+  }
+  await ctx.db.insert("writeBuffer", {
+    index: args.index,
+    namespace: args.namespace,
+    tree: tree._id,
+    key: args.key,
+    item: args.item,
+  });
+  // Writers never write the tree doc, and only write `bufferFlush` when no
+  // flush is scheduled, so while one is they don't conflict with each other.
+  if (!(await getScheduledFlush(ctx.db, args.namespace, args.index))) {
+    await ctx.db.insert("bufferFlush", {
+      index: args.index,
+      namespace: args.namespace,
+    });
+    await ctx.scheduler.runAfter(FLUSH_DELAY_MS, internal.buffer.flush, {
+      namespace: args.namespace,
+      index: args.index,
+    });
+  }
+}
+
+/**
+ * Applies the namespace's oldest pending writes, up to FLUSH_BATCH_SIZE, and
+ * returns whether that was all of them. Writes to a tree that has since
+ * been cleared or deleted are dropped instead.
+ */
+async function flushBatch(
+  db: DatabaseWriter,
+  namespace: Namespace,
+  index: Index,
+) {
+  const tree = await getTree(db, namespace, index);
+  const writes = await db
+    .query("writeBuffer")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .take(FLUSH_BATCH_SIZE);
+  for (const write of writes) {
+    if (write.tree === tree?._id) {
+      await applyWrite(db, write);
+    } else {
+      await db.delete(write._id);
+    }
+  }
+  return writes.length < FLUSH_BATCH_SIZE;
+}
+
+async function applyWrite(db: DatabaseWriter, write: Doc<"writeBuffer">) {
+  const { key, namespace, index } = write;
+  const item = write.item as Item | null;
+  const existing = await getHandler({ db }, { key, namespace, index });
+  if (item === null) {
+    if (existing !== null) {
+      await deleteHandler({ db }, { key, namespace, index });
+    }
+  } else if (existing !== null) {
+    await updateHandler(
+      { db },
+      { key, summand: item.s, payload: item.p, namespace, index },
+    );
+  } else {
+    await insertHandler(
+      { db },
+      {
+        key,
+        value: item.v,
+        summand: item.s,
+        payload: item.p,
+        namespace,
+        index,
+      },
+    );
+  }
+  await db.delete(write._id);
+}
+
+async function getScheduledFlush(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return await db
+    .query("bufferFlush")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .unique();
+}
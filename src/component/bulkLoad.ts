@@ -0,0 +1,364 @@
+import { ConvexError, v } from "convex/values";
+import {
+  type DatabaseReader,
+  type DatabaseWriter,
+  mutation,
+  type MutationCtx,
+  query,
+} from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import {
+  compareKeys,
+  computeAggregate,
+  DEFAULT_MAX_NODE_SIZE,
+  getTree,
+  type Index,
+  makeItem,
+  type Namespace,
+  p,
+} from "./btree.js";
+import { type Item, itemValidator } from "./schema.js";
+import { deleteNodes } from "./deletion.js";
+
+/**
+ * Bulk loading builds a namespace's B-tree bottom-up from items that arrive
+ * in sorted order, instead of inserting them one at a time.
+ *
+ * Full nodes are written as soon as they fill up, so only the rightmost node
+ * at each level (the "spine") is still changing. The spine is stored in the
+ * `bulkLoad` table between calls, which lets a load span many mutations.
+ * `finish` tops up the spine nodes so they meet the minimum node size, writes
+ * them, and swaps the new root into the namespace's `btree` doc.
+ */
+
+export type Spine = Doc<"bulkLoad">["spine"];
+
+/**
+ * Appends a page of items to the namespace's bulk load, starting one if
+ * necessary. Items must be in strictly increasing key order, both within
+ * the page and relative to previously appended pages.
+ */
+export const append = mutation({
+  args: {
+    items: v.array(
+      v.object({
+        key: v.any(),
+        value: v.any(),
+        summand: v.optional(v.number()),
+        payload: v.optional(v.any()),
+      }),
+    ),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { items, namespace, index }) => {
+    const load = await getOrCreateBulkLoad(ctx.db, namespace, index);
+    const spine = load.spine;
+    let last = lastItem(spine);
+    for (const { key, value, summand, payload } of items) {
+      if (last !== null && compareKeys(last.k, key) !== -1) {
+        throw new ConvexError({
+          code: "BULK_LOAD_UNSORTED",
+          message: `bulk load keys must be strictly increasing, got ${p(key)} after ${p(last.k)}`,
+        });
+      }
+      const item = makeItem(key, value, summand, payload);
+      await appendToSpine(ctx.db, spine, load.maxNodeSize, 0, item);
+      last = item;
+    }
+    await ctx.db.patch(load._id, { spine, count: load.count + items.length });
+  },
+});
+
+/**
+ * Completes the namespace's bulk load, replacing the namespace's contents
+ * with the loaded items. Nodes of the previous tree are deleted in the
+ * background, as in `clear`.
+ */
+export const finish = mutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    const load = await mustGetBulkLoad(ctx.db, namespace, index);
+    const { maxNodeSize } = load;
+    const tree = await getTree(ctx.db, namespace, index);
+    // The tree may have changed since the load started.
+    await checkCanReplace(ctx.db, tree, index);
+    const root = await writeSpine(ctx.db, load.spine, maxNodeSize);
+    if (tree) {
+      await ctx.db.patch(tree._id, { root, maxNodeSize });
+      await deleteNodes(ctx, namespace, index, [tree.root]);
+    } else {
+      await ctx.db.insert("btree", {
+        root,
+        index,
+        namespace,
+        maxNodeSize,
+      });
+    }
+    await ctx.db.delete(load._id);
+  },
+});
+
+/**
+ * Abandons the namespace's bulk load, if any, deleting the nodes built so
+ * far in the background. The namespace's tree is left untouched.
+ */
+export const cancel = mutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    await cancelBulkLoad(ctx, namespace, index);
+  },
+});
+
+/**
+ * Reports the progress of the namespace's bulk load, or null if there is
+ * none. `last` is the most recently appended item, where a resumed load
+ * should pick up.
+ */
+export const status = query({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.union(
+    v.null(),
+    v.object({
+      count: v.number(),
+      last: v.union(v.null(), itemValidator),
+    }),
+  ),
+  handler: async (ctx, { namespace, index }) => {
+    const load = await getBulkLoad(ctx.db, namespace, index);
+    if (!load) {
+      return null;
+    }
+    return { count: load.count, last: lastItem(load.spine) };
+  },
+});
+
+export async function cancelBulkLoad(
+  ctx: MutationCtx,
+  namespace: Namespace,
+  index: Index,
+) {
+  const load = await getBulkLoad(ctx.db, namespace, index);
+  if (!load) {
+    return;
+  }
+  await deleteSpine(ctx, namespace, index, load.spine);
+  await ctx.db.delete(load._id);
+}
+
+export async function getBulkLoad(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return await db
+    .query("bulkLoad")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .unique();
+}
+
+async function mustGetBulkLoad(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  const load = await getBulkLoad(db, namespace, index);
+  if (!load) {
+    throw new Error("no bulk load in progress");
+  }
+  return load;
+}
+
+async function getOrCreateBulkLoad(
+  db: DatabaseWriter,
+  namespace: Namespace,
+  index: Index,
+): Promise<Doc<"bulkLoad">> {
+  const existing = await getBulkLoad(db, namespace, index);
+  if (existing) {
+    return existing;
+  }
+  const tree = await getTree(db, namespace, index);
+  await checkCanReplace(db, tree, index);
+  const id = await db.insert("bulkLoad", {
+    index,
+    namespace,
+    maxNodeSize: tree?.maxNodeSize ?? DEFAULT_MAX_NODE_SIZE,
+    spine: [{ items: [], subtrees: [] }],
+    count: 0,
+  });
+  return (await db.get(id))!;
+}
+
+/**
+ * Checks that a bulk load can replace the namespace's tree. It can't if the
+ * tree has pending writes or is being resized, since those would be lost.
+ * Bulk loads don't write `itemIds` rows either, so they can't load a tree
+ * that tracks ids, including a new namespace that would inherit tracking
+ * from the default namespace.
+ */
+async function checkCanReplace(
+  db: DatabaseReader,
+  tree: Doc<"btree"> | null,
+  index: Index,
+) {
+  if (tree?.buffered) {
+    throw new ConvexError({
+      code: "BULK_LOAD_BUFFERED",
+      message:
+        "a bulk load would replace the tree under its pending writes; turn off buffering first",
+    });
+  }
+  if (tree?.resizing) {
+    throw new ConvexError({
+      code: "BULK_LOAD_DURING_RESIZE",
+      message:
+        "a bulk load would replace the tree being resized; wait for the resize or cancel it",
+    });
+  }
+  const trackIds = tree
+    ? tree.trackIds
+    : (await getTree(db, undefined, index))?.trackIds;
+  if (trackIds) {
+    throw new ConvexError({
+      code: "BULK_LOAD_TRACKS_IDS",
+      message:
+        "bulk loads don't record ids, so can't load a tree that tracks them",
+    });
+  }
+}
+
+/**
+ * The most recently appended item. It's the last item of the lowest
+ * non-empty spine node, since an item only moves up the spine when every
+ * node below it has just been emptied.
+ */
+function lastItem(spine: Spine): Item | null {
+  for (const node of spine) {
+    if (node.items.length > 0) {
+      return node.items[node.items.length - 1] as Item;
+    }
+  }
+  return null;
+}
+
+/**
+ * Writes the spine's nodes, topping them up to the minimum node size first,
+ * and returns the root of the finished tree.
+ */
+export async function writeSpine(
+  db: DatabaseWriter,
+  spine: Spine,
+  maxNodeSize: number,
+): Promise<Id<"btreeNode">> {
+  // Top-down, so each underfull node's parent already has enough items
+  // that its last subtree is the node's left sibling.
+  for (let level = spine.length - 2; level >= 0; level--) {
+    if (spine[level].items.length < maxNodeSize / 2) {
+      await rebalance(db, spine, level);
+    }
+  }
+  let root: Id<"btreeNode"> | undefined = undefined;
+  for (const node of spine) {
+    const subtrees: Id<"btreeNode">[] =
+      root === undefined ? node.subtrees : [...node.subtrees, root];
+    root = await db.insert("btreeNode", {
+      items: node.items,
+      subtrees,
+      aggregate: await computeAggregate(db, node.items as Item[], subtrees),
+    });
+  }
+  return root!;
+}
+
+/**
+ * Deletes the nodes already written for a spine, in the background.
+ */
+export async function deleteSpine(
+  ctx: MutationCtx,
+  namespace: Namespace,
+  index: Index,
+  spine: Spine,
+) {
+  await deleteNodes(
+    ctx,
+    namespace,
+    index,
+    spine.flatMap((node) => node.subtrees),
+  );
+}
+
+/**
+ * Appends an item to the spine node at `level`. Above the leaves, the item
+ * separates `leftSubtree`, which was just written, from the spine node one
+ * level down.
+ */
+export async function appendToSpine(
+  db: DatabaseWriter,
+  spine: Spine,
+  maxNodeSize: number,
+  level: number,
+  item: Item,
+  leftSubtree?: Id<"btreeNode">,
+) {
+  const node = spine[level];
+  if (node === undefined) {
+    // The tree grows a level.
+    spine.push({ items: [item], subtrees: [leftSubtree!] });
+    return;
+  }
+  if (node.items.length < maxNodeSize) {
+    node.items.push(item);
+    if (leftSubtree !== undefined) {
+      node.subtrees.push(leftSubtree);
+    }
+    return;
+  }
+  // The node is full, so write it and start a new one to its right, with the
+  // item separating the two in the level above.
+  const subtrees =
+    leftSubtree === undefined ? node.subtrees : [...node.subtrees, leftSubtree];
+  const written = await db.insert("btreeNode", {
+    items: node.items,
+    subtrees,
+    aggregate: await computeAggregate(db, node.items as Item[], subtrees),
+  });
+  spine[level] = { items: [], subtrees: [] };
+  await appendToSpine(db, spine, maxNodeSize, level + 1, item, written);
+}
+
+/**
+ * Tops up the spine node at `level` by splitting items evenly with its left
+ * sibling. The sibling is full, as every written node is, so both halves end
+ * up with at least maxNodeSize / 2 items.
+ */
+async function rebalance(db: DatabaseWriter, spine: Spine, level: number) {
+  const node = spine[level];
+  const parent = spine[level + 1];
+  const siblingId = parent.subtrees[parent.subtrees.length - 1];
+  const sibling = (await db.get(siblingId))!;
+  const items = [
+    ...sibling.items,
+    parent.items[parent.items.length - 1],
+    ...node.items,
+  ] as Item[];
+  const subtrees = [...sibling.subtrees, ...node.subtrees];
+  const middle = Math.floor(items.length / 2);
+  const siblingItems = items.slice(0, middle);
+  const siblingSubtrees = subtrees.slice(0, middle + 1);
+  await db.patch(siblingId, {
+    items: siblingItems,
+    subtrees: siblingSubtrees,
+    aggregate: await computeAggregate(db, siblingItems, siblingSubtrees),
+  });
+  parent.items[parent.items.length - 1] = items[middle];
+  spine[level] = {
+    items: items.slice(middle + 1),
+    subtrees: subtrees.slice(middle + 1),
+  };
+}
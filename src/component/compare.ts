@@ -3,7 +3,7 @@ import type { Value } from "convex/values";
 // Returns -1 if k1 < k2
 // Returns 0 if k1 === k2
 // Returns 1 if k1 > k2
-export function compareValues(k1: Value, k2: Value) {
+export function compareValues(k1: Value | undefined, k2: Value | undefined) {
   return compareAsTuples(makeComparable(k1), makeComparable(k2));
 }
 
@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import {
+  type DatabaseReader,
+  type DatabaseWriter,
+  internalMutation,
+  mutation,
+  type MutationCtx,
+  query,
+} from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import type { Index, Namespace } from "./btree.js";
+import { internal } from "./_generated/api.js";
+
+/**
+ * Deletion jobs free the nodes of trees that are no longer in use, e.g. after
+ * `clear`, in the background. Each namespace of each index has at most one
+ * job, which holds the roots of the subtrees it has yet to delete, and `run`
+ * deletes them in batches until none are left. A job that isn't cancelled
+ * always has a `run` scheduled, and `scheduled` records whether a cancelled
+ * one still does, so resuming it doesn't start a second.
+ *
+ * A job for trees that tracked ids also deletes their `itemIds` rows, once
+ * its nodes are gone. Rows record their tree, so they can be told apart from
+ * those of the namespace's current tree.
+ */
+
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Deletes the namespace's job's next batch of nodes, or of `itemIds` rows
+ * once the nodes are gone, scheduling itself again if there are more.
+ */
+export const run = internalMutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    const job = await getDeletion(ctx.db, namespace, index);
+    if (!job) {
+      return;
+    }
+    if (job.cancelled) {
+      await ctx.db.patch(job._id, { scheduled: false });
+      return;
+    }
+    const nodes = [...job.nodes];
+    let deleted = 0;
+    // Depth-first, so `nodes` stays short.
+    for (let i = 0; i < DELETE_BATCH_SIZE && nodes.length > 0; i++) {
+      const node = nodes.pop()!;
+      const n = await ctx.db.get(node);
+      if (n === null) {
+        // Already deleted, e.g. because it was given to the job twice.
+        continue;
+      }
+      nodes.push(...n.subtrees);
+      await ctx.db.delete(node);
+      deleted++;
+    }
+    if (nodes.length === 0 && (await deleteItemIds(ctx.db, job))) {
+      await ctx.db.delete(job._id);
+      return;
+    }
+    await ctx.db.patch(job._id, { nodes, deleted: job.deleted + deleted });
+    await ctx.scheduler.runAfter(0, internal.deletion.run, {
+      namespace,
+      index,
+    });
+  },
+});
+
+/**
+ * Stops the namespace's deletion job, if any, after its current batch. Its
+ * remaining nodes stay in storage until it's resumed.
+ */
+export const cancel = mutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    const job = await getDeletion(ctx.db, namespace, index);
+    if (job && !job.cancelled) {
+      await ctx.db.patch(job._id, { cancelled: true });
+    }
+  },
+});
+
+/**
+ * Restarts the namespace's cancelled deletion job, if any.
+ */
+export const resume = mutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    const job = await getDeletion(ctx.db, namespace, index);
+    if (!job?.cancelled) {
+      return;
+    }
+    await ctx.db.patch(job._id, { cancelled: false, scheduled: true });
+    if (!job.scheduled) {
+      await ctx.scheduler.runAfter(0, internal.deletion.run, {
+        namespace,
+        index,
+      });
+    }
+  },
+});
+
+/**
+ * Reports the progress of the namespace's deletion job, or null if there is
+ * none, in which case every node it was given has been deleted.
+ */
+export const status = query({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.union(
+    v.null(),
+    v.object({ deleted: v.number(), cancelled: v.boolean() }),
+  ),
+  handler: async (ctx, { namespace, index }) => {
+    const job = await getDeletion(ctx.db, namespace, index);
+    if (!job) {
+      return null;
+    }
+    return { deleted: job.deleted, cancelled: job.cancelled };
+  },
+});
+
+/**
+ * Adds subtrees to the namespace's deletion job, starting one if necessary.
+ * With `itemIds`, the job also deletes that tree's `itemIds` rows, for when
+ * the tree that tracked them has been cleared or deleted.
+ * A cancelled job stays cancelled.
+ */
+export async function deleteNodes(
+  ctx: MutationCtx,
+  namespace: Namespace,
+  index: Index,
+  nodes: Id<"btreeNode">[],
+  itemIds?: Id<"btree">,
+) {
+  if (nodes.length === 0) {
+    return;
+  }
+  const trees = itemIds ? [itemIds] : [];
+  const job = await getDeletion(ctx.db, namespace, index);
+  if (job) {
+    await ctx.db.patch(job._id, {
+      nodes: [...job.nodes, ...nodes],
+      itemIds: [...(job.itemIds ?? []), ...trees],
+    });
+    return;
+  }
+  await ctx.db.insert("deletion", {
+    index,
+    namespace,
+    nodes,
+    deleted: 0,
+    cancelled: false,
+    scheduled: true,
+    itemIds: trees,
+  });
+  await ctx.scheduler.runAfter(0, internal.deletion.run, { namespace, index });
+}
+
+async function getDeletion(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return await db
+    .query("deletion")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .unique();
+}
+
+/**
+ * Deletes a batch of `itemIds` rows of the job's first tree, and returns
+ * whether there are none left for any of its trees.
+ */
+async function deleteItemIds(db: DatabaseWriter, job: Doc<"deletion">) {
+  const [tree, ...rest] = job.itemIds ?? [];
+  if (tree === undefined) {
+    return true;
+  }
+  const rows = await db
+    .query("itemIds")
+    .withIndex("by_index_namespace_tree_id", (q) =>
+      q.eq("index", job.index).eq("namespace", job.namespace).eq("tree", tree),
+    )
+    .take(DELETE_BATCH_SIZE);
+  for (const row of rows) {
+    await db.delete(row._id);
+  }
+  if (rows.length === DELETE_BATCH_SIZE) {
+    return false;
+  }
+  if (rest.length === 0) {
+    return true;
+  }
+  await db.patch(job._id, { itemIds: rest });
+  return false;
+}
@@ -1,13 +1,13 @@
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel.js";
 import { type DatabaseReader, query } from "./_generated/server.js";
-import { getTree, type Namespace, p } from "./btree.js";
+import { getTree, type Index, type Namespace, p } from "./btree.js";
 import schema from "./schema.js";
 
 export const display = query({
-  args: { namespace: v.optional(v.any()) },
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const tree = await getTree(ctx.db, args.namespace);
+    const tree = await getTree(ctx.db, args.namespace, args.index);
     if (!tree) {
       return "empty";
     }
@@ -33,15 +33,19 @@ async function displayNode(
 }
 
 export const dump = query({
-  args: { namespace: v.optional(v.any()) },
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
   returns: v.string(),
   handler: async (ctx, args) => {
-    return await dumpTree(ctx.db, args.namespace);
+    return await dumpTree(ctx.db, args.namespace, args.index);
   },
 });
 
-export async function dumpTree(db: DatabaseReader, namespace: Namespace) {
-  const t = (await getTree(db, namespace))!;
+export async function dumpTree(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index?: Index,
+) {
+  const t = (await getTree(db, namespace, index))!;
   return dumpNode(db, t.root);
 }
 
@@ -71,10 +75,14 @@ async function dumpNode(
 }
 
 export const inspectNode = query({
-  args: { node: v.optional(v.string()), namespace: v.optional(v.any()) },
+  args: {
+    node: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const tree = await getTree(ctx.db, args.namespace);
+    const tree = await getTree(ctx.db, args.namespace, args.index);
     if (!tree) {
       console.log("no tree");
       return;
@@ -133,3 +141,20 @@ export const listTreeNodes = query({
     return values;
   },
 });
+
+export const listItemIds = query({
+  args: {
+    take: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      ...schema.tables.itemIds.validator.fields,
+      _id: v.id("itemIds"),
+      _creationTime: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const values = await ctx.db.query("itemIds").take(args.take ?? 100);
+    return values;
+  },
+});
@@ -1,30 +1,50 @@
-import { ConvexError, v } from "convex/values";
-import { mutation } from "./_generated/server.js";
+import {
+  ConvexError,
+  type Infer,
+  v,
+  type Value as ConvexValue,
+} from "convex/values";
+import { mutation, type MutationCtx } from "./_generated/server.js";
 import {
   DEFAULT_MAX_NODE_SIZE,
   deleteHandler,
+  getByIdHandler,
   getOrCreateTree,
   getTree,
+  type Index,
   insertHandler,
+  type Key,
+  makeItem,
+  type Namespace,
+  p,
+  updateHandler,
   type Value,
 } from "./btree.js";
-import { internal } from "./_generated/api.js";
+import { bufferWrite, isBuffered } from "./buffer.js";
+import { cancelBulkLoad } from "./bulkLoad.js";
+import { cancelResize } from "./resize.js";
+import { deleteNodes } from "./deletion.js";
+import { compareValues } from "./compare.js";
 
 export const init = mutation({
   args: {
     maxNodeSize: v.optional(v.number()),
+    trackIds: v.optional(v.boolean()),
     namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
   returns: v.null(),
-  handler: async (ctx, { maxNodeSize, namespace }) => {
-    const existing = await getTree(ctx.db, namespace);
+  handler: async (ctx, { maxNodeSize, trackIds, namespace, index }) => {
+    const existing = await getTree(ctx.db, namespace, index);
     if (existing) {
       throw new Error("tree already initialized");
     }
     await getOrCreateTree(
       ctx.db,
       namespace,
+      index,
       maxNodeSize ?? DEFAULT_MAX_NODE_SIZE,
+      trackIds,
     );
   },
 });
@@ -32,112 +52,449 @@ export const init = mutation({
 export const insert = mutation({
   args: {
     key: v.any(),
-    value: v.string(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
     namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await insertHandler(ctx, { ...args, value: args.value as Value });
+    await insertItem(ctx, args);
   },
 });
 
 // delete is a keyword, hence the underscore.
 export const delete_ = mutation({
-  args: { key: v.any(), namespace: v.optional(v.any()) },
+  args: {
+    key: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
   returns: v.null(),
-  handler: deleteHandler,
+  handler: async (ctx, args) => {
+    await deleteItem(ctx, args);
+  },
 });
 
 export const replace = mutation({
   args: {
     currentKey: v.any(),
     newKey: v.any(),
-    value: v.string(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
     namespace: v.optional(v.any()),
     newNamespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
   returns: v.null(),
-  handler: async (ctx, args) => {
-    await deleteHandler(ctx, {
-      key: args.currentKey,
-      namespace: args.namespace,
-    });
-    await insertHandler(ctx, {
-      key: args.newKey,
-      value: args.value as Value,
-      namespace: args.newNamespace,
-    });
-  },
+  handler: replaceHandler,
 });
 
 export const deleteIfExists = mutation({
-  args: { key: v.any(), namespace: v.optional(v.any()) },
-  handler: async (ctx, { key, namespace }) => {
-    try {
-      await deleteHandler(ctx, { key, namespace });
-    } catch (e) {
-      if (e instanceof ConvexError && e.data?.code === "DELETE_MISSING_KEY") {
-        return;
-      }
-      throw e;
-    }
+  args: {
+    key: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
+  handler: deleteIfExistsHandler,
 });
 
 export const replaceOrInsert = mutation({
   args: {
     currentKey: v.any(),
     newKey: v.any(),
-    value: v.string(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
     namespace: v.optional(v.any()),
     newNamespace: v.optional(v.any()),
+    index: v.optional(v.string()),
   },
+  handler: replaceOrInsertHandler,
+});
+
+/**
+ * Deletes the item with the given id, without knowing its key.
+ * Only for trees that track ids.
+ */
+export const deleteById = mutation({
+  args: {
+    id: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
   handler: async (ctx, args) => {
-    try {
-      await deleteHandler(ctx, {
-        key: args.currentKey,
-        namespace: args.namespace,
-      });
-    } catch (e) {
-      if (
-        !(e instanceof ConvexError && e.data?.code === "DELETE_MISSING_KEY")
-      ) {
-        throw e;
-      }
-    }
-    await insertHandler(ctx, {
-      key: args.newKey,
-      value: args.value as Value,
-      namespace: args.newNamespace,
+    const item = await mustGetById(ctx, args);
+    await deleteItem(ctx, {
+      key: item.k,
+      namespace: args.namespace,
+      index: args.index,
+    });
+  },
+});
+
+/**
+ * Moves the item with the given id to `newKey`, without knowing its current
+ * key. Its summand and payload are kept. Only for trees that track ids.
+ */
+export const updateKeyById = mutation({
+  args: {
+    id: v.any(),
+    newKey: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const item = await mustGetById(ctx, args);
+    await replaceHandler(ctx, {
+      currentKey: item.k,
+      newKey: args.newKey,
+      value: item.v,
+      summand: item.s,
+      payload: item.p,
+      namespace: args.namespace,
+      newNamespace: args.namespace,
+      index: args.index,
+    });
+  },
+});
+
+async function mustGetById(
+  ctx: MutationCtx,
+  args: { id: Value; namespace?: Namespace; index?: Index },
+) {
+  const item = await getByIdHandler(ctx, args);
+  if (item === null) {
+    throw new ConvexError({
+      code: "MISSING_ID",
+      message: `id ${p(args.id)} not found`,
     });
+  }
+  return item;
+}
+
+const batchOperation = v.union(
+  v.object({
+    type: v.literal("insert"),
+    key: v.any(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("delete"),
+    key: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("replace"),
+    currentKey: v.any(),
+    newKey: v.any(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    newNamespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("insertIfDoesNotExist"),
+    key: v.any(),
+    value: v.any(),
+    summand: v.optional(v.number()),
+    payload: v.optional(v.any()),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("deleteIfExists"),
+    key: v.any(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  }),
+);
+
+/**
+ * Applies a sequence of writes, possibly across namespaces, in order and in
+ * a single transaction. If any operation throws, none of them are applied.
+ */
+export const applyBatch = mutation({
+  args: { operations: v.array(batchOperation) },
+  returns: v.null(),
+  handler: async (ctx, { operations }) => {
+    for (const op of operations) {
+      await applyOperation(ctx, op);
+    }
   },
 });
 
+async function applyOperation(
+  ctx: MutationCtx,
+  op: Infer<typeof batchOperation>,
+) {
+  switch (op.type) {
+    case "insert":
+      await insertItem(ctx, op);
+      break;
+    case "delete":
+      await deleteItem(ctx, op);
+      break;
+    case "replace":
+      await replaceHandler(ctx, op);
+      break;
+    case "insertIfDoesNotExist":
+      await replaceOrInsertHandler(ctx, {
+        currentKey: op.key,
+        newKey: op.key,
+        value: op.value,
+        summand: op.summand,
+        payload: op.payload,
+        namespace: op.namespace,
+        newNamespace: op.namespace,
+        index: op.index,
+      });
+      break;
+    case "deleteIfExists":
+      await deleteIfExistsHandler(ctx, op);
+      break;
+  }
+}
+
+type ReplaceArgs = {
+  currentKey: Key;
+  newKey: Key;
+  value: Value;
+  summand?: number;
+  payload?: ConvexValue;
+  namespace?: Namespace;
+  newNamespace?: Namespace;
+  index?: Index;
+};
+
+// Writes to buffered trees go to the write buffer instead. See buffer.ts.
+async function insertItem(
+  ctx: MutationCtx,
+  args: {
+    key: Key;
+    value: Value;
+    summand?: number;
+    payload?: ConvexValue;
+    namespace?: Namespace;
+    index?: Index;
+  },
+) {
+  if (await isBuffered(ctx.db, args.namespace, args.index)) {
+    const item = makeItem(args.key, args.value, args.summand, args.payload);
+    await bufferWrite(ctx, { ...args, item });
+  } else {
+    await insertHandler(ctx, args);
+  }
+}
+
+async function deleteItem(
+  ctx: MutationCtx,
+  args: { key: Key; namespace?: Namespace; index?: Index },
+) {
+  if (await isBuffered(ctx.db, args.namespace, args.index)) {
+    await bufferWrite(ctx, { ...args, item: null });
+  } else {
+    await deleteHandler(ctx, args);
+  }
+}
+
+async function updateItem(
+  ctx: MutationCtx,
+  args: {
+    key: Key;
+    value: Value;
+    summand?: number;
+    payload?: ConvexValue;
+    namespace?: Namespace;
+    index?: Index;
+  },
+): Promise<boolean> {
+  if (await isBuffered(ctx.db, args.namespace, args.index)) {
+    await insertItem(ctx, args);
+    return true;
+  }
+  return await updateHandler(ctx, args);
+}
+
+// When the item stays put, it can be updated in place.
+function isSamePosition(args: ReplaceArgs) {
+  return (
+    compareValues(args.currentKey, args.newKey) === 0 &&
+    compareValues(args.namespace, args.newNamespace) === 0
+  );
+}
+
+async function replaceHandler(ctx: MutationCtx, args: ReplaceArgs) {
+  if (isSamePosition(args)) {
+    const updated = await updateItem(ctx, {
+      key: args.currentKey,
+      value: args.value,
+      summand: args.summand,
+      payload: args.payload,
+      namespace: args.namespace,
+      index: args.index,
+    });
+    if (!updated) {
+      throw new ConvexError({
+        code: "DELETE_MISSING_KEY",
+        message: `key ${p(args.currentKey)} not found`,
+      });
+    }
+    return;
+  }
+  await deleteItem(ctx, {
+    key: args.currentKey,
+    namespace: args.namespace,
+    index: args.index,
+  });
+  await insertItem(ctx, {
+    key: args.newKey,
+    value: args.value,
+    summand: args.summand,
+    payload: args.payload,
+    namespace: args.newNamespace,
+    index: args.index,
+  });
+}
+
+async function deleteIfExistsHandler(
+  ctx: MutationCtx,
+  { key, namespace, index }: { key: Key; namespace?: Namespace; index?: Index },
+) {
+  try {
+    await deleteItem(ctx, { key, namespace, index });
+  } catch (e) {
+    if (e instanceof ConvexError && e.data?.code === "DELETE_MISSING_KEY") {
+      return;
+    }
+    throw e;
+  }
+}
+
+async function replaceOrInsertHandler(ctx: MutationCtx, args: ReplaceArgs) {
+  if (isSamePosition(args)) {
+    const updated = await updateItem(ctx, {
+      key: args.currentKey,
+      value: args.value,
+      summand: args.summand,
+      payload: args.payload,
+      namespace: args.namespace,
+      index: args.index,
+    });
+    if (updated) {
+      return;
+    }
+  }
+  await deleteIfExistsHandler(ctx, {
+    key: args.currentKey,
+    namespace: args.namespace,
+    index: args.index,
+  });
+  await insertItem(ctx, {
+    key: args.newKey,
+    value: args.value,
+    summand: args.summand,
+    payload: args.payload,
+    namespace: args.newNamespace,
+    index: args.index,
+  });
+}
+
 /**
  * Reinitialize the aggregate data structure, clearing all data.
  * maxNodeSize is the sharding coefficient for the underlying btree.
- * If not provided, the existing value is preserved.
+ * trackIds records where each item is, so it can be found by id.
+ * If not provided, the existing values are preserved, as is buffering.
+ * Any bulk load or resize in progress is cancelled.
  */
 export const clear = mutation({
   args: {
     namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
     maxNodeSize: v.optional(v.number()),
+    trackIds: v.optional(v.boolean()),
   },
   returns: v.null(),
-  handler: async (ctx, { maxNodeSize, namespace }) => {
-    const tree = await getTree(ctx.db, namespace);
+  handler: async (ctx, { maxNodeSize, trackIds, namespace, index }) => {
+    // A bulk load would replace the cleared tree when it finished.
+    await cancelBulkLoad(ctx, namespace, index);
+    const tree = await getTree(ctx.db, namespace, index);
     let existingMaxNodeSize = DEFAULT_MAX_NODE_SIZE;
     if (tree) {
       await ctx.db.delete(tree._id);
       existingMaxNodeSize = tree.maxNodeSize;
-      await ctx.scheduler.runAfter(0, internal.btree.deleteTreeNodes, {
-        node: tree.root,
-      });
+      // There's nothing left to resize.
+      await cancelResize(ctx, namespace, index);
+      await deleteNodes(
+        ctx,
+        namespace,
+        index,
+        [tree.root],
+        tree.trackIds ? tree._id : undefined,
+      );
     }
-    await getOrCreateTree(
+    const newTree = await getOrCreateTree(
       ctx.db,
       namespace,
+      index,
       maxNodeSize ?? existingMaxNodeSize,
+      trackIds ?? tree?.trackIds,
     );
+    if (tree?.buffered) {
+      // Pending writes were to the old tree, so flushes drop them.
+      if (newTree.trackIds) {
+        throw new ConvexError({
+          code: "BUFFERED_TRACKS_IDS",
+          message: "turn off buffering with setBuffered before tracking ids",
+        });
+      }
+      await ctx.db.patch(newTree._id, {
+        buffered: true,
+        unbuffering: tree.unbuffering,
+      });
+    }
+  },
+});
+
+/**
+ * Deletes the namespace's tree, so the namespace no longer exists, along
+ * with any pending writes, bulk load or resize. Its nodes are deleted in the
+ * background, as in `clear`, followed by the rows tracking its ids. Reads
+ * treat a missing namespace as empty, and writing to it creates it again.
+ * Deleting the default namespace also resets the settings that new
+ * namespaces inherit.
+ */
+export const deleteNamespace = mutation({
+  args: {
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    await cancelBulkLoad(ctx, namespace, index);
+    await cancelResize(ctx, namespace, index);
+    // Any pending writes were to this tree, so flushes drop them.
+    const tree = await getTree(ctx.db, namespace, index);
+    if (tree) {
+      await ctx.db.delete(tree._id);
+      await deleteNodes(
+        ctx,
+        namespace,
+        index,
+        [tree.root],
+        tree.trackIds ? tree._id : undefined,
+      );
+    }
   },
 });
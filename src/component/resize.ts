@@ -0,0 +1,321 @@
+import { ConvexError, convexToJson, v } from "convex/values";
+import {
+  type DatabaseReader,
+  internalMutation,
+  mutation,
+  type MutationCtx,
+  query,
+} from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import {
+  getHandler,
+  getOrCreateTree,
+  getTree,
+  type Index,
+  type Key,
+  type Namespace,
+  nodeAggregate,
+  paginateInNode,
+  putInTree,
+} from "./btree.js";
+import {
+  appendToSpine,
+  deleteSpine,
+  getBulkLoad,
+  writeSpine,
+} from "./bulkLoad.js";
+import { deleteNodes } from "./deletion.js";
+import { internal } from "./_generated/api.js";
+
+/**
+ * Resizing rebuilds a namespace's B-tree with a different maxNodeSize while
+ * the tree stays in use.
+ *
+ * `step` copies the tree's items in pages, in key order, into a new tree
+ * built bottom-up like a bulk load. Meanwhile, writes go to the current tree
+ * as usual, and the keys they touch are logged in `resizeWrites`, since the
+ * copy may already be past them. Once everything is copied, the new tree is
+ * written, and later steps replay the log onto it in batches, bringing each
+ * logged key up to date with the current tree. Writes keep being logged
+ * until the step that replays the last batch, which also swaps the new root
+ * in. Nodes of the old tree are deleted in the background, as in `clear`.
+ */
+
+const RESIZE_BATCH_SIZE = 100;
+
+/**
+ * Starts rebuilding the namespace's tree with a new maxNodeSize, creating
+ * the tree if necessary.
+ */
+export const start = mutation({
+  args: {
+    maxNodeSize: v.number(),
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { maxNodeSize, namespace, index }) => {
+    if (maxNodeSize % 2 !== 0 || maxNodeSize < 4) {
+      throw new ConvexError({
+        code: "INVALID_MAX_NODE_SIZE",
+        message: `maxNodeSize must be even and at least 4, got ${maxNodeSize}`,
+      });
+    }
+    if (await getResize(ctx.db, namespace, index)) {
+      throw new ConvexError({
+        code: "RESIZE_IN_PROGRESS",
+        message: "the tree is already being resized",
+      });
+    }
+    if (await getBulkLoad(ctx.db, namespace, index)) {
+      throw new ConvexError({
+        code: "RESIZE_DURING_BULK_LOAD",
+        message:
+          "a bulk load will replace the tree; finish or cancel it before resizing",
+      });
+    }
+    const tree = await getTree(ctx.db, namespace, index);
+    if (!tree) {
+      await getOrCreateTree(ctx.db, namespace, index, maxNodeSize);
+      return;
+    }
+    if (tree.maxNodeSize === maxNodeSize) {
+      return;
+    }
+    const resize = await ctx.db.insert("resize", {
+      index,
+      namespace,
+      maxNodeSize,
+      spine: [{ items: [], subtrees: [] }],
+      cursor: null,
+      count: 0,
+    });
+    await ctx.db.patch(tree._id, { resizing: true });
+    await ctx.scheduler.runAfter(0, internal.resize.step, {
+      namespace,
+      index,
+      resize,
+    });
+  },
+});
+
+/**
+ * Copies the next page of items into the new tree, or once they're all
+ * copied, replays the next batch of logged writes onto it. Schedules itself
+ * again until the new tree has caught up and been swapped in.
+ *
+ * Each step is for one resize, so if it's cancelled and another starts
+ * before the step runs, the step stops instead of running alongside the new
+ * resize's own steps.
+ */
+export const step = internalMutation({
+  args: {
+    namespace: v.optional(v.any()),
+    index: v.optional(v.string()),
+    resize: v.id("resize"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index, resize: resizeId }) => {
+    const resize = await ctx.db.get(resizeId);
+    if (!resize) {
+      // Cancelled.
+      return;
+    }
+    const tree = (await getTree(ctx.db, namespace, index))!;
+    if (resize.root !== undefined) {
+      if (await replay(ctx, tree, resize, resize.root)) {
+        return;
+      }
+    } else {
+      await copy(ctx, tree, resize);
+    }
+    await ctx.scheduler.runAfter(0, internal.resize.step, {
+      namespace,
+      index,
+      resize: resizeId,
+    });
+  },
+});
+
+/**
+ * Drops logged writes left behind by a cancelled resize, in batches. They
+ * would only make the namespace's next resize replay more keys than it needs
+ * to, so this stops if one starts.
+ */
+export const deleteWrites = internalMutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    if (await getResize(ctx.db, namespace, index)) {
+      return;
+    }
+    const writes = await takeResizeWrites(ctx.db, namespace, index);
+    for (const write of writes) {
+      await ctx.db.delete(write._id);
+    }
+    if (writes.length === RESIZE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.resize.deleteWrites, {
+        namespace,
+        index,
+      });
+    }
+  },
+});
+
+/**
+ * Abandons the namespace's resize, if any, deleting the nodes built so far
+ * in the background. The namespace's tree keeps its maxNodeSize.
+ */
+export const cancel = mutation({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.null(),
+  handler: async (ctx, { namespace, index }) => {
+    const tree = await getTree(ctx.db, namespace, index);
+    if (tree?.resizing) {
+      await ctx.db.patch(tree._id, { resizing: undefined });
+    }
+    await cancelResize(ctx, namespace, index);
+  },
+});
+
+/**
+ * Reports the progress of the namespace's resize, or null if there is none.
+ * `count` is the number of items copied so far, out of `total`.
+ */
+export const status = query({
+  args: { namespace: v.optional(v.any()), index: v.optional(v.string()) },
+  returns: v.union(
+    v.null(),
+    v.object({
+      maxNodeSize: v.number(),
+      count: v.number(),
+      total: v.number(),
+    }),
+  ),
+  handler: async (ctx, { namespace, index }) => {
+    const resize = await getResize(ctx.db, namespace, index);
+    if (!resize) {
+      return null;
+    }
+    const tree = (await getTree(ctx.db, namespace, index))!;
+    const root = (await ctx.db.get(tree.root))!;
+    return {
+      maxNodeSize: resize.maxNodeSize,
+      count: resize.count,
+      total: (await nodeAggregate(ctx.db, root)).count,
+    };
+  },
+});
+
+/**
+ * Drops the namespace's resize, if any, deleting its nodes and logged
+ * writes in the background. The caller is responsible for the tree's
+ * `resizing` flag.
+ */
+export async function cancelResize(
+  ctx: MutationCtx,
+  namespace: Namespace,
+  index: Index,
+) {
+  const resize = await getResize(ctx.db, namespace, index);
+  if (!resize) {
+    return;
+  }
+  await deleteSpine(ctx, namespace, index, resize.spine);
+  if (resize.root !== undefined) {
+    await deleteNodes(ctx, namespace, index, [resize.root]);
+  }
+  await ctx.db.delete(resize._id);
+  await ctx.scheduler.runAfter(0, internal.resize.deleteWrites, {
+    namespace,
+    index,
+  });
+}
+
+async function getResize(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return await db
+    .query("resize")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .unique();
+}
+
+/**
+ * Appends the next page of the current tree's items to the new tree, and
+ * writes the new tree once they're all copied.
+ */
+async function copy(
+  ctx: MutationCtx,
+  tree: Doc<"btree">,
+  resize: Doc<"resize">,
+) {
+  const { page, cursor, isDone } = await paginateInNode(
+    ctx.db,
+    tree.root,
+    RESIZE_BATCH_SIZE,
+    "asc",
+    resize.cursor ?? undefined,
+  );
+  const spine = resize.spine;
+  for (const item of page) {
+    await appendToSpine(ctx.db, spine, resize.maxNodeSize, 0, item);
+  }
+  const count = resize.count + page.length;
+  if (isDone) {
+    const root = await writeSpine(ctx.db, spine, resize.maxNodeSize);
+    await ctx.db.patch(resize._id, { spine: [], cursor, count, root });
+  } else {
+    await ctx.db.patch(resize._id, { spine, cursor, count });
+  }
+}
+
+/**
+ * Replays the oldest logged writes onto the new tree, replacing each logged
+ * key's item with the current tree's item at that key, if any. If that was
+ * the last of them, swaps the new tree in and returns true. Writes are
+ * logged until then, so the new tree never misses one.
+ */
+async function replay(
+  ctx: MutationCtx,
+  tree: Doc<"btree">,
+  resize: Doc<"resize">,
+  root: Id<"btreeNode">,
+) {
+  const { namespace, index, maxNodeSize } = resize;
+  const writes = await takeResizeWrites(ctx.db, namespace, index);
+  const keys = new Map<string, Key>();
+  for (const write of writes) {
+    keys.set(JSON.stringify(convexToJson(write.key)), write.key);
+    await ctx.db.delete(write._id);
+  }
+  for (const key of keys.values()) {
+    const item = await getHandler(ctx, { key, namespace, index });
+    root = await putInTree(ctx.db, root, maxNodeSize, key, item);
+  }
+  if (writes.length === RESIZE_BATCH_SIZE) {
+    await ctx.db.patch(resize._id, { root });
+    return false;
+  }
+  await ctx.db.patch(tree._id, { root, maxNodeSize, resizing: undefined });
+  await deleteNodes(ctx, namespace, index, [tree.root]);
+  await ctx.db.delete(resize._id);
+  return true;
+}
+
+async function takeResizeWrites(
+  db: DatabaseReader,
+  namespace: Namespace,
+  index: Index,
+) {
+  return await db
+    .query("resizeWrites")
+    .withIndex("by_index_namespace", (q) =>
+      q.eq("index", index).eq("namespace", namespace),
+    )
+    .take(RESIZE_BATCH_SIZE);
+}
@@ -1,32 +1,176 @@
 import { defineSchema, defineTable } from "convex/server";
-import { type Value as ConvexValue, v, type GenericId } from "convex/values";
+import { type Value as ConvexValue, v } from "convex/values";
 
 const item = v.object({
   // key, usually an index key.
   k: v.any(),
-  // value, usually an id.
-  v: v.string(),
+  // value, usually an id. Any Convex value is allowed.
+  v: v.any(),
+  // summand, the item's contribution to sums. Missing in items written
+  // before sums were maintained, which count as 0.
+  s: v.optional(v.number()),
+  // payload, a small value returned with the item.
+  p: v.optional(v.any()),
 });
 
 export type Item = {
   k: ConvexValue;
-  v: GenericId<string>;
+  v: ConvexValue;
+  s?: number;
+  p?: ConvexValue;
 };
 
 export const itemValidator = v.object({
   k: v.any(),
-  v: v.string(),
+  v: v.any(),
+  s: v.optional(v.number()),
+  p: v.optional(v.any()),
 });
 
+// The rightmost node at each level of a tree being built bottom-up, leaf level
+// first. These are the only nodes still growing, so they live here until the
+// tree is finished. Each holds one fewer subtree than an internal node would:
+// its last subtree is the spine node one level down.
+const spine = v.array(
+  v.object({
+    items: v.array(item),
+    subtrees: v.array(v.id("btreeNode")),
+  }),
+);
+
+export const aggregate = v.object({
+  // number of items in the subtree rooted at this node.
+  count: v.number(),
+  // sum of the items' summands in the subtree rooted at this node.
+  sum: v.number(),
+});
+
+export type Aggregate = {
+  count: number;
+  sum: number;
+};
+
 export default defineSchema({
-  // One per namespace
+  // One per namespace of each index
   btree: defineTable({
     root: v.id("btreeNode"),
+    // name of the index, so one component can host many independent trees.
+    // undefined is the default index.
+    index: v.optional(v.string()),
     namespace: v.optional(v.any()),
     maxNodeSize: v.number(),
-  }).index("by_namespace", ["namespace"]),
+    // whether each item's position is recorded in `itemIds`, so items can be
+    // found by id.
+    trackIds: v.optional(v.boolean()),
+    // whether writes go to `writeBuffer` and are applied to the tree later,
+    // so concurrent writers don't conflict on the root.
+    buffered: v.optional(v.boolean()),
+    // whether buffering is being turned off, which happens once the pending
+    // writes are flushed.
+    unbuffering: v.optional(v.boolean()),
+    // whether a resize is copying the tree, so writes are logged in
+    // `resizeWrites` for the copy to catch up on.
+    resizing: v.optional(v.boolean()),
+  }).index("by_index_namespace", ["index", "namespace"]),
   btreeNode: defineTable({
     items: v.array(item),
     subtrees: v.array(v.id("btreeNode")),
+    // missing in nodes written before aggregates were maintained. See
+    // `nodeAggregate` in btree.ts.
+    aggregate: v.optional(aggregate),
   }),
+  // One per namespace of each index with a bulk load in progress. See bulkLoad.ts.
+  bulkLoad: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    maxNodeSize: v.number(),
+    spine,
+    // number of items appended so far.
+    count: v.number(),
+  }).index("by_index_namespace", ["index", "namespace"]),
+  // Progress of backfilling the tree from an app table. See backfill.ts.
+  backfill: defineTable({
+    index: v.optional(v.string()),
+    table: v.string(),
+    // where the next page starts, or null to start from the beginning.
+    cursor: v.union(v.string(), v.null()),
+    isDone: v.boolean(),
+    // number of documents backfilled so far.
+    processed: v.number(),
+  }).index("by_index_table", ["index", "table"]),
+  // Where each item is, by id, for trees that track ids. Rows can outlive
+  // their item, so a row only counts if the tree still has an item at `key`.
+  itemIds: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    // the tree the item is in. Rows of a tree that has since been cleared or
+    // deleted are deleted along with its nodes.
+    tree: v.id("btree"),
+    id: v.any(),
+    key: v.any(),
+  }).index("by_index_namespace_tree_id", ["index", "namespace", "tree", "id"]),
+  // One per namespace of each index with a `flush` scheduled, so writers
+  // don't schedule another. See buffer.ts.
+  bufferFlush: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+  }).index("by_index_namespace", ["index", "namespace"]),
+  // Writes to buffered trees that haven't been applied yet, oldest first.
+  // See buffer.ts.
+  writeBuffer: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    // the tree the write was made to. Writes to a tree that has since been
+    // cleared or deleted are dropped.
+    tree: v.id("btree"),
+    key: v.any(),
+    // the item to put at `key`, or null to delete whatever is there.
+    item: v.union(item, v.null()),
+  })
+    .index("by_index_namespace", ["index", "namespace"])
+    // Each tree has at most one pending write per key.
+    .index("by_index_namespace_tree_key", [
+      "index",
+      "namespace",
+      "tree",
+      "key",
+    ]),
+  // One per namespace of each index with a resize in progress. See resize.ts.
+  resize: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    // the node size of the tree being built.
+    maxNodeSize: v.number(),
+    spine,
+    // where the next page of the current tree starts, or null to start from
+    // the beginning.
+    cursor: v.union(v.string(), v.null()),
+    // number of items copied so far.
+    count: v.number(),
+    // root of the finished copy, once every item has been copied and the
+    // spine written. Logged writes are then replayed onto it.
+    root: v.optional(v.id("btreeNode")),
+  }).index("by_index_namespace", ["index", "namespace"]),
+  // Nodes of discarded trees waiting to be deleted, one job per namespace of
+  // each index. See deletion.ts.
+  deletion: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    // roots of the subtrees still to delete.
+    nodes: v.array(v.id("btreeNode")),
+    // number of nodes deleted so far.
+    deleted: v.number(),
+    // whether the job has been stopped, until it's resumed.
+    cancelled: v.boolean(),
+    // whether a `run` is scheduled, which a cancelled job may still have.
+    scheduled: v.boolean(),
+    // trees whose `itemIds` rows to delete after the nodes.
+    itemIds: v.optional(v.array(v.id("btree"))),
+  }).index("by_index_namespace", ["index", "namespace"]),
+  // Keys written while their tree is being resized. See resize.ts.
+  resizeWrites: defineTable({
+    index: v.optional(v.string()),
+    namespace: v.optional(v.any()),
+    key: v.any(),
+  }).index("by_index_namespace", ["index", "namespace"]),
 });